@@ -0,0 +1,323 @@
+import path from 'path';
+import type {
+  ApiReport,
+  ApiReportEntry,
+  ApiChange,
+  FileDeclaration,
+  FunctionDeclaration,
+  ParameterInfo
+} from './types';
+import { toPosixPath } from './ignore';
+import { formatTypeParameters, normalizeType } from './signature';
+
+/**
+ * Current API report format version
+ */
+export const API_REPORT_VERSION = 1;
+
+/**
+ * Build a canonical API report from the exported declarations of a directory
+ * @param fileDeclarations Parse results
+ * @param rootDirectory Directory the entry ids are made relative to
+ */
+export function buildApiReport(fileDeclarations: FileDeclaration[], rootDirectory: string): ApiReport {
+  const entries: ApiReportEntry[] = [];
+
+  for (const fileDecl of fileDeclarations) {
+    const relativePath = toPosixPath(path.relative(rootDirectory, fileDecl.fileName));
+    const ids = new Map<string, number>();
+
+    // Repeated names (overloads, get/set pairs) get an occurrence suffix to keep ids unique
+    const push = (name: string, entry: Omit<ApiReportEntry, 'id'>) => {
+      const baseId = `${relativePath}#${name}`;
+      const occurrence = ids.get(baseId) || 0;
+      ids.set(baseId, occurrence + 1);
+      entries.push({ id: occurrence === 0 ? baseId : `${baseId}~${occurrence}`, ...entry });
+    };
+
+    // Callers of an overloaded function only see its overload signatures, not the implementation
+    const overloaded = new Set(fileDecl.functions.filter(func => !func.bodyRange && !func.typeAlias).map(func => func.functionName));
+
+    for (const func of fileDecl.functions) {
+      // Function-type aliases are reported once, as type aliases
+      if (!func.exported || func.typeAlias || (func.bodyRange && overloaded.has(func.functionName))) continue;
+      push(func.functionName, functionEntry('function', func, func.defaultExport));
+    }
+
+    for (const cls of fileDecl.classes) {
+      if (!cls.exported) continue;
+      push(cls.className, {
+        kind: 'class',
+        ...withModifiers([cls.defaultExport && 'default', cls.abstract && 'abstract']),
+        typeParameters: cls.typeParameters,
+        type: cls.signature
+      });
+
+      for (const method of cls.methods) {
+        // Private members are not part of the public surface
+        if (method.accessibility === 'private' || method.functionName.startsWith('#')) continue;
+        push(`${cls.className}.${method.functionName}`, functionEntry('method', method, false));
+      }
+    }
+
+    for (const iface of fileDecl.interfaces) {
+      if (!iface.exported) continue;
+      push(iface.interfaceName, {
+        kind: 'interface',
+        ...withModifiers([iface.defaultExport && 'default']),
+        typeParameters: iface.typeParameters
+      });
+
+      for (const member of iface.members) {
+        const name = `${iface.interfaceName}.${member.name}`;
+        if (member.kind === 'method' || member.kind === 'call' || member.kind === 'construct') {
+          push(name, {
+            kind: 'method',
+            typeParameters: member.typeParameters,
+            parameters: member.parameters,
+            returnType: member.returnType,
+            optional: member.optional
+          });
+        } else {
+          push(name, {
+            kind: 'property',
+            ...withModifiers([!!member.readonly && 'readonly']),
+            type: member.type,
+            optional: member.optional
+          });
+        }
+      }
+    }
+
+    for (const alias of fileDecl.typeAliases) {
+      if (!alias.exported) continue;
+      push(alias.aliasName, {
+        kind: 'typeAlias',
+        ...withModifiers([alias.defaultExport && 'default']),
+        typeParameters: alias.typeParameters,
+        type: alias.type
+      });
+    }
+
+    for (const enumDecl of fileDecl.enums) {
+      if (!enumDecl.exported) continue;
+      push(enumDecl.enumName, { kind: 'enum', ...withModifiers([enumDecl.defaultExport && 'default']) });
+
+      for (const member of enumDecl.members) {
+        push(`${enumDecl.enumName}.${member.name}`, { kind: 'enumMember', value: member.value });
+      }
+    }
+  }
+
+  entries.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  return { reportVersion: API_REPORT_VERSION, entries };
+}
+
+/**
+ * Build the report entry of a function or method
+ */
+function functionEntry(
+  kind: 'function' | 'method',
+  func: FunctionDeclaration,
+  defaultExport: boolean
+): Omit<ApiReportEntry, 'id'> {
+  return {
+    kind,
+    ...withModifiers([
+      defaultExport && 'default',
+      func.kind === 'getter' && 'get',
+      func.kind === 'setter' && 'set',
+      func.kind === 'constructor' && 'constructor',
+      func.accessibility === 'protected' && 'protected',
+      func.static && 'static',
+      func.abstract && 'abstract',
+      func.async && 'async',
+      func.generator && 'generator',
+      func.readonly && 'readonly'
+    ]),
+    typeParameters: func.typeParameters,
+    parameters: func.parameters,
+    returnType: func.returnType
+  };
+}
+
+/**
+ * Build the modifiers field from a list of optional modifier names, omitting it when empty
+ */
+function withModifiers(modifiers: (string | false)[]): { modifiers?: string[] } {
+  const present = modifiers.filter((modifier): modifier is string => !!modifier);
+  return present.length > 0 ? { modifiers: present } : {};
+}
+
+/**
+ * Serialize a report canonically: sorted entries, fixed key order, two-space indentation
+ */
+export function formatApiReport(report: ApiReport): string {
+  const keyOrder: (keyof ApiReportEntry)[] = [
+    'id', 'kind', 'modifiers', 'typeParameters', 'parameters', 'returnType', 'type', 'optional', 'value'
+  ];
+
+  const entries = report.entries.map(entry => {
+    const ordered: Record<string, unknown> = {};
+    for (const key of keyOrder) {
+      if (entry[key] !== undefined) {
+        ordered[key] = entry[key];
+      }
+    }
+    return ordered;
+  });
+
+  return JSON.stringify({ reportVersion: report.reportVersion, entries }, null, 2) + '\n';
+}
+
+/**
+ * Compare a committed report against the current one and classify every difference.
+ * Removed entries, new required parameters and changed types are breaking;
+ * new exports, new optional or rest parameters and loosened requirements are additive.
+ * Types are compared in their normalized spelling, so reformatting alone is not a change.
+ * @param previous The committed report
+ * @param current The report of the current tree
+ */
+export function compareApiReports(previous: ApiReport, current: ApiReport): ApiChange[] {
+  const changes: ApiChange[] = [];
+  const previousEntries = new Map(previous.entries.map(entry => [entry.id, entry]));
+  const currentEntries = new Map(current.entries.map(entry => [entry.id, entry]));
+
+  for (const [id, oldEntry] of previousEntries) {
+    const newEntry = currentEntries.get(id);
+    if (!newEntry) {
+      changes.push({ id, severity: 'breaking', description: `removed ${oldEntry.kind}` });
+    } else {
+      changes.push(...compareEntries(oldEntry, newEntry));
+    }
+  }
+
+  for (const [id, newEntry] of currentEntries) {
+    if (previousEntries.has(id)) continue;
+
+    // Consumers implementing an interface must provide a new required member
+    const breaking = (newEntry.kind === 'property' || newEntry.kind === 'method') &&
+      !newEntry.optional && currentEntries.get(parentId(id))?.kind === 'interface';
+    changes.push({
+      id,
+      severity: breaking ? 'breaking' : 'additive',
+      description: breaking ? `new required ${newEntry.kind}` : `new ${newEntry.kind}`
+    });
+  }
+
+  changes.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  return changes;
+}
+
+/**
+ * Get the id of the declaration a member entry belongs to, e.g. `api.ts#Options` for `api.ts#Options.name`
+ */
+function parentId(id: string): string {
+  const hash = id.indexOf('#');
+  const dot = id.indexOf('.', hash);
+  return dot === -1 ? id : id.slice(0, dot);
+}
+
+/**
+ * Classify the differences between two versions of the same entry
+ */
+function compareEntries(oldEntry: ApiReportEntry, newEntry: ApiReportEntry): ApiChange[] {
+  const changes: ApiChange[] = [];
+  const id = oldEntry.id;
+  const breaking = (description: string) => changes.push({ id, severity: 'breaking', description });
+  const additive = (description: string) => changes.push({ id, severity: 'additive', description });
+
+  if (oldEntry.kind !== newEntry.kind) {
+    breaking(`kind changed from ${oldEntry.kind} to ${newEntry.kind}`);
+    return changes;
+  }
+
+  const oldModifiers = (oldEntry.modifiers || []).join(' ');
+  const newModifiers = (newEntry.modifiers || []).join(' ');
+  if (oldModifiers !== newModifiers) {
+    breaking(`modifiers changed from '${oldModifiers}' to '${newModifiers}'`);
+  }
+
+  if (formatTypeParameters(oldEntry.typeParameters || []) !== formatTypeParameters(newEntry.typeParameters || [])) {
+    breaking('type parameters changed');
+  }
+
+  if (oldEntry.parameters || newEntry.parameters) {
+    changes.push(...compareParameters(id, oldEntry.parameters || [], newEntry.parameters || []));
+  }
+
+  if (normalizeType(oldEntry.returnType || '') !== normalizeType(newEntry.returnType || '')) {
+    breaking(`return type changed from '${oldEntry.returnType || ''}' to '${newEntry.returnType || ''}'`);
+  }
+
+  if (normalizeType(oldEntry.type || '') !== normalizeType(newEntry.type || '')) {
+    breaking(`type changed from '${oldEntry.type || ''}' to '${newEntry.type || ''}'`);
+  }
+
+  if (!!oldEntry.optional !== !!newEntry.optional) {
+    if (newEntry.optional) {
+      additive('became optional');
+    } else {
+      breaking('became required');
+    }
+  }
+
+  if (oldEntry.value !== newEntry.value) {
+    breaking(`value changed from '${oldEntry.value ?? ''}' to '${newEntry.value ?? ''}'`);
+  }
+
+  return changes;
+}
+
+/**
+ * Classify parameter list changes by position; parameter names do not matter to callers.
+ * Callers never have to pass a variadic parameter, so it counts as optional.
+ */
+function compareParameters(id: string, oldParams: ParameterInfo[], newParams: ParameterInfo[]): ApiChange[] {
+  const changes: ApiChange[] = [];
+  oldParams = oldParams.filter(param => !isSeparator(param));
+  newParams = newParams.filter(param => !isSeparator(param));
+
+  for (let i = 0; i < Math.max(oldParams.length, newParams.length); i++) {
+    const oldParam = oldParams[i];
+    const newParam = newParams[i];
+
+    if (!newParam) {
+      changes.push({ id, severity: 'breaking', description: `removed parameter '${oldParam.name}'` });
+    } else if (!oldParam) {
+      changes.push(isOptional(newParam)
+        ? { id, severity: 'additive', description: `new optional parameter '${newParam.name}'` }
+        : { id, severity: 'breaking', description: `new required parameter '${newParam.name}'` });
+    } else {
+      if (normalizeType(oldParam.type) !== normalizeType(newParam.type)) {
+        changes.push({
+          id,
+          severity: 'breaking',
+          description: `parameter '${newParam.name}' type changed from '${oldParam.type}' to '${newParam.type}'`
+        });
+      }
+      if (isOptional(oldParam) && !isOptional(newParam)) {
+        changes.push({ id, severity: 'breaking', description: `parameter '${newParam.name}' became required` });
+      } else if (!isOptional(oldParam) && isOptional(newParam)) {
+        changes.push({ id, severity: 'additive', description: `parameter '${newParam.name}' became optional` });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Check whether callers may leave out a parameter
+ */
+function isOptional(param: ParameterInfo): boolean {
+  return param.optional || !!param.variadic;
+}
+
+/**
+ * Check whether a parameter is Python's bare `/` or `*` separator, which callers do not pass
+ */
+function isSeparator(param: ParameterInfo): boolean {
+  return (param.name === '/' || param.name === '*') && !param.type;
+}
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { FileDeclaration, Logger } from './types';
+import { VERSION } from './version';
+import { getLanguageModules, getInlineAdapters } from './languages';
+import { consoleLogger } from './logger';
+
+/**
+ * Default cache location, relative to the current working directory
+ */
+export const DEFAULT_CACHE_DIR = path.join('node_modules', '.cache', 'funsig');
+
+/**
+ * Version of the cached declaration shape. Bump it whenever FileDeclaration changes,
+ * so entries written by an unreleased build with the old shape are not served.
+ */
+const CACHE_FORMAT_VERSION = 15;
+
+// Entries are only served to the funsig version and cache format that wrote them
+const ENTRY_VERSION = `${VERSION}/${CACHE_FORMAT_VERSION}`;
+
+/**
+ * Get the version entries are written and served with. Language adapter modules can change
+ * what is extracted, so each is part of it with a hash of its content.
+ */
+function getEntryVersion(): string {
+  const languageModules = getLanguageModules().map(modulePath =>
+    `${modulePath}@${hashContent(fs.readFileSync(require.resolve(modulePath), 'utf8'))}`);
+  return languageModules.length > 0 ? `${ENTRY_VERSION}+${languageModules.join(',')}` : ENTRY_VERSION;
+}
+
+/**
+ * A cached parse result, stored as one JSON file per source file
+ */
+interface CacheEntry {
+  /** funsig version and cache format version that produced the entry */
+  version: string;
+  /** Absolute path of the source file */
+  filePath: string;
+  /** SHA-256 of the source file content */
+  contentHash: string;
+  /** The extracted declarations */
+  declaration: FileDeclaration;
+}
+
+/**
+ * On-disk cache of FileDeclarations keyed by file path, content hash and funsig version.
+ * Each source file has a single entry that is overwritten when its content changes.
+ * Adapters registered with `registerLanguage` have nothing to identify them by across runs,
+ * so the cache is off while any is in use.
+ */
+export class DeclarationCache {
+  private cacheDir: string;
+  private logger: Logger;
+  // Computed on first use, once the language adapters of the run are in place
+  private entryVersion?: string | null;
+
+  /**
+   * Create a cache stored in the given directory
+   * @param cacheDir Cache directory (created on first write)
+   * @param logger Where write failures are reported (default: the console)
+   */
+  constructor(cacheDir: string = DEFAULT_CACHE_DIR, logger: Logger = consoleLogger) {
+    this.cacheDir = cacheDir;
+    this.logger = logger;
+  }
+
+  /**
+   * Look up the declarations of a file
+   * @param filePath Path to the source file
+   * @param fileContent Current content of the source file
+   * @returns The cached declarations, or undefined if there is no entry for this content and version
+   */
+  get(filePath: string, fileContent: string): FileDeclaration | undefined {
+    const version = this.getVersion();
+    const entryPath = this.getEntryPath(filePath);
+    if (!version || !fs.existsSync(entryPath)) return undefined;
+
+    try {
+      const entry: CacheEntry = JSON.parse(fs.readFileSync(entryPath, 'utf8'));
+      if (
+        entry.version !== version ||
+        entry.filePath !== path.resolve(filePath) ||
+        entry.contentHash !== hashContent(fileContent)
+      ) {
+        return undefined;
+      }
+      return { ...entry.declaration, fileName: filePath };
+    } catch {
+      // Corrupt or partially written entry: treat as a miss
+      return undefined;
+    }
+  }
+
+  /**
+   * Store the declarations of a file
+   * @param filePath Path to the source file
+   * @param fileContent Content the declarations were extracted from
+   * @param declaration The extracted declarations
+   */
+  set(filePath: string, fileContent: string, declaration: FileDeclaration): void {
+    const version = this.getVersion();
+    if (!version) return;
+
+    const entry: CacheEntry = {
+      version,
+      filePath: path.resolve(filePath),
+      contentHash: hashContent(fileContent),
+      declaration
+    };
+
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+
+      // Write to a temporary file first so readers never see a partial entry
+      const entryPath = this.getEntryPath(filePath);
+      const tempPath = `${entryPath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(entry));
+      fs.renameSync(tempPath, entryPath);
+    } catch (error) {
+      this.logger.warn(`Failed to write cache entry for ${filePath}:`, error);
+    }
+  }
+
+  /**
+   * Remove all cache entries
+   */
+  clear(): void {
+    fs.rmSync(this.cacheDir, { recursive: true, force: true });
+  }
+
+  /**
+   * Get the version of entries, or null when nothing may be cached, warning about it once
+   */
+  private getVersion(): string | null {
+    if (this.entryVersion === undefined) {
+      const inlineAdapters = getInlineAdapters();
+      if (inlineAdapters.length > 0) {
+        this.logger.warn(`Language adapters registered with registerLanguage cannot be cached, not using the cache: ${inlineAdapters.join(', ')}`);
+        this.entryVersion = null;
+      } else {
+        this.entryVersion = getEntryVersion();
+      }
+    }
+    return this.entryVersion;
+  }
+
+  private getEntryPath(filePath: string): string {
+    const key = crypto.createHash('sha256').update(path.resolve(filePath)).digest('hex');
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+}
+
+/**
+ * Hash file content for cache validation
+ */
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
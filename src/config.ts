@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { loadLanguageModule } from './languages';
+
+/**
+ * Config file the CLI reads from the current directory when `--config` is not given
+ */
+export const DEFAULT_CONFIG_FILE = 'funsig.config.json';
+
+/**
+ * Contents of a funsig config file
+ */
+export interface FunsigConfig {
+  /**
+   * Modules exporting language adapters: paths relative to the config file, or package names.
+   * They are loaded in order, so later adapters override earlier ones.
+   */
+  languages?: string[];
+}
+
+/**
+ * Read a config file and load the language adapters it lists
+ * @param configFile Path to the config file
+ * @returns The config
+ * @throws If the file cannot be read, is not valid, or lists a module that cannot be loaded
+ */
+export function loadConfig(configFile: string): FunsigConfig {
+  let config: FunsigConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read config file ${configFile}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Invalid config file ${configFile}: expected an object`);
+  }
+  if (config.languages !== undefined &&
+      (!Array.isArray(config.languages) || !config.languages.every(entry => typeof entry === 'string'))) {
+    throw new Error(`Invalid config file ${configFile}: languages must be an array of module paths`);
+  }
+
+  const configDirectory = path.dirname(path.resolve(configFile));
+  for (const entry of config.languages || []) {
+    loadLanguageModule(resolveModule(entry, configDirectory));
+  }
+
+  return config;
+}
+
+/**
+ * Resolve a module listed in a config file: relative paths against the config file's directory,
+ * package names from there as well
+ */
+function resolveModule(entry: string, configDirectory: string): string {
+  if (entry.startsWith('.') || path.isAbsolute(entry)) {
+    return path.resolve(configDirectory, entry);
+  }
+  return require.resolve(entry, { paths: [configDirectory] });
+}
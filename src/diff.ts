@@ -0,0 +1,102 @@
+import type { FileDeclaration, DeclarationChange, DeclarationKind } from './types';
+
+/**
+ * A declaration flattened for comparison
+ */
+interface ComparableDeclaration {
+  kind: DeclarationKind;
+  name: string;
+  lineNo: number;
+  /** Serialized signature, excluding fields that change without the signature changing */
+  fingerprint: string;
+}
+
+// Fields that do not affect a declaration's signature: ids are derived from the name, line numbers
+// and ranges move when code above is edited, docs are not part of the signature, and methods are compared individually
+const NON_SIGNATURE_FIELDS = new Set(['id', 'lineNo', 'range', 'nameRange', 'bodyRange', 'doc', 'methods', 'fileName']);
+
+/**
+ * Serialize a declaration without its non-signature fields
+ */
+function fingerprint(declaration: object): string {
+  return JSON.stringify(declaration, (key, value) => (NON_SIGNATURE_FIELDS.has(key) ? undefined : value));
+}
+
+/**
+ * Flatten the declarations of a file into a map keyed by kind, qualified name and overload index
+ */
+function collectDeclarations(fileDeclaration: FileDeclaration | undefined): Map<string, ComparableDeclaration> {
+  const declarations = new Map<string, ComparableDeclaration>();
+  if (!fileDeclaration) return declarations;
+
+  const add = (kind: DeclarationKind, name: string, lineNo: number, declaration: object) => {
+    // Overloads and accessor pairs share a name, so number repeated names in declaration order
+    let overloadIndex = 0;
+    while (declarations.has(`${kind}:${name}#${overloadIndex}`)) {
+      overloadIndex++;
+    }
+    declarations.set(`${kind}:${name}#${overloadIndex}`, { kind, name, lineNo, fingerprint: fingerprint(declaration) });
+  };
+
+  for (const func of fileDeclaration.functions) {
+    add('function', func.functionName, func.lineNo, func);
+  }
+  for (const cls of fileDeclaration.classes) {
+    add('class', cls.className, cls.lineNo, cls);
+    for (const method of cls.methods) {
+      add('method', `${cls.className}.${method.functionName}`, method.lineNo, method);
+    }
+  }
+  for (const decl of fileDeclaration.interfaces) {
+    add('interface', decl.interfaceName, decl.lineNo, decl);
+  }
+  for (const decl of fileDeclaration.typeAliases) {
+    add('typeAlias', decl.aliasName, decl.lineNo, decl);
+  }
+  for (const decl of fileDeclaration.enums) {
+    add('enum', decl.enumName, decl.lineNo, decl);
+  }
+
+  return declarations;
+}
+
+/**
+ * Compare two versions of a file's declarations
+ * @param before Declarations before the change (undefined if the file was added)
+ * @param after Declarations after the change (undefined if the file was removed)
+ * @returns Removed and changed declarations in the old order, followed by added ones in the new order
+ */
+export function diffFileDeclarations(
+  before: FileDeclaration | undefined,
+  after: FileDeclaration | undefined
+): DeclarationChange[] {
+  const fileName = (after || before)?.fileName || '';
+  const oldDeclarations = collectDeclarations(before);
+  const newDeclarations = collectDeclarations(after);
+  const changes: DeclarationChange[] = [];
+
+  for (const [key, oldDecl] of oldDeclarations) {
+    const newDecl = newDeclarations.get(key);
+    if (!newDecl) {
+      changes.push({ change: 'removed', kind: oldDecl.kind, name: oldDecl.name, fileName, lineNo: oldDecl.lineNo });
+    } else if (newDecl.fingerprint !== oldDecl.fingerprint) {
+      changes.push({ change: 'changed', kind: newDecl.kind, name: newDecl.name, fileName, lineNo: newDecl.lineNo });
+    }
+  }
+
+  for (const [key, newDecl] of newDeclarations) {
+    if (!oldDeclarations.has(key)) {
+      changes.push({ change: 'added', kind: newDecl.kind, name: newDecl.name, fileName, lineNo: newDecl.lineNo });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Format a change as a compact one-line event, e.g. `+ function add src/math.ts:3`
+ */
+export function formatChange(change: DeclarationChange): string {
+  const marker = change.change === 'added' ? '+' : change.change === 'removed' ? '-' : '~';
+  return `${marker} ${change.kind} ${change.name} ${change.fileName}:${change.lineNo}`;
+}
@@ -0,0 +1,269 @@
+import type { DocComment, DocParam, DocTypedDescription } from './types';
+
+// Google-style section headers, mapped to the DocComment field they fill
+const SECTIONS: Record<string, string> = {
+  'args': 'params',
+  'arguments': 'params',
+  'parameters': 'params',
+  'params': 'params',
+  'keyword args': 'params',
+  'keyword arguments': 'params',
+  'returns': 'returns',
+  'return': 'returns',
+  'raises': 'throws',
+  'example': 'examples',
+  'examples': 'examples',
+  'see also': 'see'
+};
+
+/**
+ * Parse a Python docstring into a structured DocComment. Google-style sections
+ * (`Args:`, `Returns:`, `Raises:`, ...) and Sphinx fields (`:param x:`, `:rtype:`, ...) are recognized;
+ * everything before them is the summary.
+ * @param literal Source text of the string literal, including its quotes and prefix
+ * @returns The parsed documentation, or undefined if the literal cannot be a docstring
+ */
+export function parseDocstring(literal: string): DocComment | undefined {
+  const text = stripStringDelimiters(literal);
+  if (text === undefined) return undefined;
+
+  const doc: DocComment = {
+    summary: '',
+    params: [],
+    typeParams: [],
+    throws: [],
+    examples: [],
+    see: [],
+    tags: []
+  };
+
+  const summaryLines: string[] = [];
+  const paramTypes = new Map<string, string>();
+  let returnType: string | undefined;
+
+  for (const block of splitBlocks(cleanDocstring(text))) {
+    if (block.section !== undefined) {
+      addSection(doc, block.section, block.lines);
+    } else if (block.field !== undefined) {
+      const field = block.field;
+      const description = collapseDescription(block.lines.join('\n'));
+
+      switch (field.name) {
+        case 'param':
+        case 'parameter':
+        case 'arg':
+        case 'argument':
+        case 'key':
+        case 'keyword': {
+          // `:param int x:` carries the type before the name
+          const parts = field.argument.split(/\s+/);
+          const name = parts.pop() || '';
+          const type = parts.length > 0 ? parts.join(' ') : undefined;
+          doc.params.push({ name, ...(type ? { type } : {}), description, optional: false });
+          break;
+        }
+        case 'type':
+          paramTypes.set(field.argument, description);
+          break;
+        case 'returns':
+        case 'return':
+          doc.returns = { ...(doc.returns || {}), description };
+          break;
+        case 'rtype':
+          returnType = description;
+          break;
+        case 'raises':
+        case 'raise':
+        case 'except':
+        case 'exception':
+          doc.throws.push({ ...(field.argument ? { type: field.argument } : {}), description });
+          break;
+        default:
+          doc.tags.push({ tag: field.name, text: field.argument ? `${field.argument} ${description}`.trim() : description });
+      }
+    } else {
+      summaryLines.push(...block.lines);
+    }
+  }
+
+  // Sphinx types come in separate :type: and :rtype: fields
+  for (const param of doc.params) {
+    const type = paramTypes.get(param.name);
+    if (type && !param.type) param.type = type;
+  }
+  if (returnType) {
+    doc.returns = { type: returnType, description: doc.returns ? doc.returns.description : '' };
+  }
+
+  doc.summary = trimBlankLines(summaryLines).join('\n');
+
+  return doc;
+}
+
+/**
+ * Get the content of a string literal, or undefined for literals that are not plain strings
+ * (f-strings and bytes)
+ */
+function stripStringDelimiters(literal: string): string | undefined {
+  const match = /^([rRuU]*)("""|'''|"|')([\s\S]*)\2$/.exec(literal.trim());
+  if (!match) return undefined;
+
+  const content = match[3];
+  if (/[rR]/.test(match[1])) return content;
+
+  // Only the escapes that show up in prose; the rest are kept as written
+  return content.replace(/\\(["'\\])/g, '$1').replace(/\\\n/g, '');
+}
+
+/**
+ * Normalize docstring indentation like `inspect.cleandoc`: the first line is stripped,
+ * the common indentation of the others removed, and blank lines at either end dropped
+ */
+function cleanDocstring(text: string): string[] {
+  const lines = text.replace(/\t/g, '        ').split('\n');
+
+  let indent = Infinity;
+  for (const line of lines.slice(1)) {
+    if (line.trim()) {
+      indent = Math.min(indent, line.length - line.trimStart().length);
+    }
+  }
+
+  const cleaned = [lines[0].trim(), ...lines.slice(1).map(line => (indent === Infinity ? line : line.substring(indent)).trimEnd())];
+  return trimBlankLines(cleaned);
+}
+
+/**
+ * Split docstring lines into the summary, Google-style sections and Sphinx fields
+ */
+function splitBlocks(lines: string[]): { section?: string, field?: { name: string, argument: string }, lines: string[] }[] {
+  const blocks: { section?: string, field?: { name: string, argument: string }, lines: string[] }[] = [{ lines: [] }];
+
+  for (const line of lines) {
+    const current = blocks[blocks.length - 1];
+    const header = /^([A-Za-z][A-Za-z ]*):$/.exec(line);
+    const field = /^:(\w+)\s*([^:]*):\s*(.*)$/.exec(line);
+
+    if (header && SECTIONS[header[1].toLowerCase()] !== undefined) {
+      blocks.push({ section: header[1].toLowerCase(), lines: [] });
+    } else if (field) {
+      blocks.push({ field: { name: field[1], argument: field[2].trim() }, lines: [field[3]] });
+    } else if (current.section !== undefined && line.trim() && !/^\s/.test(line)) {
+      // An unindented line ends the section
+      blocks.push({ lines: [line] });
+    } else if (current.field !== undefined && line.trim() && !/^\s/.test(line)) {
+      blocks.push({ lines: [line] });
+    } else {
+      current.lines.push(line);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Fill a DocComment field from the lines of a Google-style section
+ */
+function addSection(doc: DocComment, section: string, lines: string[]): void {
+  const body = dedent(trimBlankLines(lines));
+
+  switch (SECTIONS[section]) {
+    case 'params':
+      doc.params.push(...splitEntries(body).map(parseParamEntry));
+      break;
+    case 'returns':
+      doc.returns = parseTypedEntry(body.join('\n'));
+      break;
+    case 'throws':
+      doc.throws.push(...splitEntries(body).map(entry => parseTypedEntry(entry)));
+      break;
+    case 'examples':
+      doc.examples.push(body.join('\n'));
+      break;
+    case 'see':
+      doc.see.push(...splitEntries(body).map(collapseDescription));
+      break;
+  }
+}
+
+/**
+ * Split section lines into entries: each unindented line starts a new one,
+ * and more deeply indented lines continue it
+ */
+function splitEntries(lines: string[]): string[] {
+  const entries: string[] = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    if (/^\s/.test(line) && entries.length > 0) {
+      entries[entries.length - 1] += '\n' + line.trim();
+    } else {
+      entries.push(line.trim());
+    }
+  }
+  return entries;
+}
+
+/**
+ * Parse a Google-style argument entry: `name (type, optional): description`
+ */
+function parseParamEntry(entry: string): DocParam {
+  const match = /^(\*{0,2}[\w.]+)\s*(?:\(([^)]*)\))?\s*:\s*([\s\S]*)$/.exec(entry);
+  if (!match) {
+    return { name: entry.split(/\s/)[0], description: '', optional: false };
+  }
+
+  let type = match[2] ? match[2].trim() : undefined;
+  let optional = false;
+  if (type && /,\s*optional$/.test(type)) {
+    optional = true;
+    type = type.replace(/,\s*optional$/, '').trim();
+  } else if (type === 'optional') {
+    optional = true;
+    type = undefined;
+  }
+
+  return { name: match[1], ...(type ? { type } : {}), description: collapseDescription(match[3]), optional };
+}
+
+/**
+ * Parse a `type: description` entry of a Returns or Raises section.
+ * The part before the colon is only taken as a type when it has no spaces outside brackets.
+ */
+function parseTypedEntry(entry: string): DocTypedDescription {
+  const match = /^([^\s:]+(?:\[[^\]]*\])?)\s*:\s*([\s\S]*)$/.exec(entry);
+  if (match) {
+    return { type: match[1], description: collapseDescription(match[2]) };
+  }
+  return { description: collapseDescription(entry) };
+}
+
+/**
+ * Remove the common indentation of non-blank lines
+ */
+function dedent(lines: string[]): string[] {
+  let indent = Infinity;
+  for (const line of lines) {
+    if (line.trim()) {
+      indent = Math.min(indent, line.length - line.trimStart().length);
+    }
+  }
+  return indent === Infinity ? lines : lines.map(line => line.substring(indent));
+}
+
+/**
+ * Join a multi-line description into a single line
+ */
+function collapseDescription(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Drop blank lines at the start and end
+ */
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+}
@@ -0,0 +1,305 @@
+import path from 'path';
+import type {
+  FileDeclaration,
+  FunctionDeclaration,
+  ClassDeclaration,
+  InterfaceMember,
+  ParameterInfo,
+  TypeParameterInfo,
+  DocComment,
+  ExportInfo,
+  SourceRange
+} from './types';
+
+// Extensions whose types come from JSDoc rather than annotations
+const JAVASCRIPT_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs']);
+
+// Extensions declaration files can be generated for
+const DECLARATION_SOURCE_EXTENSIONS = new Set([...JAVASCRIPT_EXTENSIONS, '.ts', '.tsx', '.mts', '.cts']);
+
+const INDENT = '  ';
+
+/**
+ * Get the name of the declaration file for a source file, e.g. `src/a.js` -> `src/a.d.ts`
+ * @param fileName Path to the source file
+ */
+export function getDeclarationFileName(fileName: string): string {
+  const extension = path.extname(fileName);
+  const declarationExtension = extension === '.mjs' || extension === '.mts'
+    ? '.d.mts'
+    : extension === '.cjs' || extension === '.cts'
+      ? '.d.cts'
+      : '.d.ts';
+  return fileName.substring(0, fileName.length - extension.length) + declarationExtension;
+}
+
+/**
+ * Render the declarations of a file as a TypeScript declaration file.
+ * Non-exported functions of a module are left out; non-exported classes, interfaces, types
+ * and enums are kept without `export`, since exported signatures may refer to them.
+ * Overloaded functions are declared by their overload signatures, without the implementation.
+ * A file that exports nothing is a script, and its module-scope declarations are global;
+ * functions nested in other functions or classes are left out.
+ * Types of JavaScript files come from their JSDoc, and missing types become `any`.
+ * Files in other languages render as an empty string.
+ * @param fileDecl Declarations of the file
+ */
+export function renderDeclarationFile(fileDecl: FileDeclaration): string {
+  const extension = path.extname(fileDecl.fileName).toLowerCase();
+  if (!DECLARATION_SOURCE_EXTENSIONS.has(extension)) return '';
+
+  const fromJSDoc = JAVASCRIPT_EXTENSIONS.has(extension);
+  const renderer = new DeclarationRenderer(fromJSDoc);
+
+  const all: ExportInfo[] = [
+    ...fileDecl.functions,
+    ...fileDecl.classes,
+    ...fileDecl.interfaces,
+    ...fileDecl.typeAliases,
+    ...fileDecl.enums
+  ];
+  const isModule = all.some(decl => decl.exported);
+
+  const blocks: string[] = [];
+  let defaultExport: string | undefined;
+
+  const add = (decl: ExportInfo, name: string, doc: DocComment | undefined, declaration: string) => {
+    // Default exports are declared under their local name and exported at the end
+    const prefix = decl.exported && !decl.defaultExport ? 'export ' : '';
+    blocks.push(renderDoc(doc, '') + prefix + declaration);
+    if (decl.defaultExport) {
+      defaultExport = name;
+    }
+  };
+
+  // Names with signatures that have no body, whose implementations are not part of the declared shape
+  const overloaded = new Set(fileDecl.functions.filter(func => !func.bodyRange && !func.typeAlias).map(func => func.functionName));
+
+  // Functions and classes whose bodies can hold local declarations
+  const scopes = [...fileDecl.functions, ...fileDecl.classes].map(decl => decl.range);
+  const isNested = (range: SourceRange) => scopes.some(scope =>
+    scope !== range && scope.start.offset <= range.start.offset && range.end.offset <= scope.end.offset);
+
+  for (const func of fileDecl.functions) {
+    if (isModule ? !func.exported : isNested(func.range)) continue;
+    // Function-type aliases are declared as types below
+    if (func.typeAlias || (func.bodyRange && overloaded.has(func.functionName))) continue;
+    add(func, func.functionName, func.doc, `declare function ${renderer.renderFunction(func.functionName, func, func.doc)};`);
+  }
+  for (const cls of fileDecl.classes) {
+    add(cls, cls.className, cls.doc, renderer.renderClass(cls));
+  }
+  for (const decl of fileDecl.interfaces) {
+    const members = decl.members.map(member => renderDoc(member.doc, INDENT) + INDENT + renderer.renderInterfaceMember(member));
+    const heritage = decl.extends ? ` extends ${decl.extends.join(', ')}` : '';
+    add(decl, decl.interfaceName, decl.doc, `interface ${decl.interfaceName}${renderer.renderTypeParameters(decl.typeParameters)}${heritage} {\n${members.map(line => line + '\n').join('')}}`);
+  }
+  for (const decl of fileDecl.typeAliases) {
+    add(decl, decl.aliasName, decl.doc, `type ${decl.aliasName}${renderer.renderTypeParameters(decl.typeParameters)} = ${decl.type};`);
+  }
+  for (const decl of fileDecl.enums) {
+    const members = decl.members.map(member => (member.value !== undefined ? `${member.name} = ${member.value}` : member.name));
+    add(decl, decl.enumName, decl.doc, `declare enum ${decl.enumName} {\n${members.map(member => `${INDENT}${member},\n`).join('')}}`);
+  }
+
+  if (defaultExport) {
+    blocks.push(`export default ${defaultExport};`);
+  }
+
+  return blocks.map(block => block + '\n').join('\n');
+}
+
+/**
+ * Renders declarations of a single file, converting JSDoc types when needed
+ */
+class DeclarationRenderer {
+  private fromJSDoc: boolean;
+
+  constructor(fromJSDoc: boolean) {
+    this.fromJSDoc = fromJSDoc;
+  }
+
+  /**
+   * Render a class shell with its member signatures
+   */
+  renderClass(cls: ClassDeclaration): string {
+    const members: string[] = [];
+
+    for (const method of cls.methods) {
+      // ECMAScript private members are not part of the declared shape
+      if (method.functionName.startsWith('#')) continue;
+
+      const modifiers = [
+        method.accessibility && method.accessibility !== 'public' ? method.accessibility : '',
+        method.static ? 'static' : '',
+        method.abstract ? 'abstract' : '',
+        method.readonly ? 'readonly' : ''
+      ].filter(Boolean).map(modifier => modifier + ' ').join('');
+
+      let member: string;
+      if (method.kind === 'constructor') {
+        // Parameter properties are declared as members of their own
+        for (const param of method.parameters) {
+          if (param.accessibility || param.readonly) {
+            members.push(INDENT + this.renderParameterProperty(param));
+          }
+        }
+        member = `${modifiers}constructor(${this.renderParameters(method.parameters, method.doc)});`;
+      } else if (method.accessibility === 'private') {
+        // Like tsc, private members only reserve their name
+        member = `${modifiers}${method.functionName};`;
+      } else if (method.readonly) {
+        // Readonly function-valued fields can only be declared as properties
+        const signature = this.renderFunction('', method, method.doc).replace(/\): (.*)$/, ') => $1');
+        member = `${modifiers}${method.functionName}: ${signature};`;
+      } else if (method.kind === 'getter') {
+        member = `${modifiers}get ${method.functionName}(): ${this.renderType(method.returnType)};`;
+      } else if (method.kind === 'setter') {
+        member = `${modifiers}set ${method.functionName}(${this.renderParameters(method.parameters, method.doc)});`;
+      } else {
+        member = `${modifiers}${this.renderFunction(method.functionName, method, method.doc)};`;
+      }
+
+      members.push(renderDoc(method.doc, INDENT) + INDENT + member);
+    }
+
+    // TypeScript headers carry over as written; JavaScript ones only get @template type parameters
+    const header = this.fromJSDoc
+      ? `class ${cls.className}${this.renderTypeParameters(cls.typeParameters, cls.doc)}`
+      : cls.signature;
+    return `declare ${header} {\n${members.map(line => line + '\n').join('')}}`;
+  }
+
+  /**
+   * Render the class member a constructor parameter property declares, e.g. `readonly name: string;`
+   */
+  renderParameterProperty(param: ParameterInfo): string {
+    const accessibility = param.accessibility && param.accessibility !== 'public' ? `${param.accessibility} ` : '';
+    const readonly = param.readonly ? 'readonly ' : '';
+    if (param.accessibility === 'private') {
+      return `${accessibility}${readonly}${param.name};`;
+    }
+    return `${accessibility}${readonly}${param.name}${param.optional ? '?' : ''}: ${this.renderType(param.type)};`;
+  }
+
+  /**
+   * Render a function signature without a leading keyword, e.g. `add(a: number, b: number): number`
+   */
+  renderFunction(name: string, func: FunctionDeclaration, doc: DocComment | undefined): string {
+    let returnType = func.returnType ? this.renderType(func.returnType) : 'any';
+    if (!func.returnType && func.generator) {
+      returnType = func.async ? 'AsyncGenerator<any>' : 'Generator<any>';
+    } else if (!func.returnType && func.async) {
+      returnType = 'Promise<any>';
+    }
+    return `${name}${this.renderTypeParameters(func.typeParameters, doc)}(${this.renderParameters(func.parameters, doc)}): ${returnType}`;
+  }
+
+  /**
+   * Render an interface member signature
+   */
+  renderInterfaceMember(member: InterfaceMember): string {
+    const optional = member.optional ? '?' : '';
+    const readonly = member.readonly ? 'readonly ' : '';
+    const callable = () => `${this.renderTypeParameters(member.typeParameters || [])}(${this.renderParameters(member.parameters || [])}): ${this.renderType(member.returnType)};`;
+
+    switch (member.kind) {
+      case 'method':
+        return `${member.name}${optional}${callable()}`;
+      case 'call':
+        return callable();
+      case 'construct':
+        return `new ${callable()}`;
+      case 'index':
+        return `${readonly}${member.name}: ${this.renderType(member.type)};`;
+      default:
+        return `${readonly}${member.name}${optional}: ${this.renderType(member.type)};`;
+    }
+  }
+
+  /**
+   * Render a parameter list. JavaScript parameters are optional when their @param tag says so.
+   * Optional parameters followed by a required one are widened to `| undefined`,
+   * since a declaration cannot mark them optional.
+   */
+  renderParameters(parameters: ParameterInfo[], doc?: DocComment): string {
+    if (this.fromJSDoc && doc) {
+      parameters = parameters.map(param => {
+        const docParam = doc.params.find(candidate => candidate.name === param.name);
+        return docParam && docParam.optional ? { ...param, optional: true } : param;
+      });
+    }
+
+    let lastRequired = -1;
+    parameters.forEach((param, index) => {
+      if (!param.optional && !param.name.startsWith('...')) lastRequired = index;
+    });
+
+    return parameters.map((param, index) => {
+      const isRest = param.name.startsWith('...');
+      const type = param.type ? this.renderType(param.type) : isRest ? 'any[]' : 'any';
+
+      if (param.optional && index < lastRequired) {
+        return `${param.name}: ${type} | undefined`;
+      }
+      return `${param.name}${param.optional && !isRest ? '?' : ''}: ${type}`;
+    }).join(', ');
+  }
+
+  /**
+   * Render type parameters, falling back to JSDoc @template tags for JavaScript
+   */
+  renderTypeParameters(typeParameters: TypeParameterInfo[], doc?: DocComment): string {
+    let params = typeParameters;
+    if (params.length === 0 && this.fromJSDoc && doc && doc.typeParams.length > 0) {
+      params = doc.typeParams.map(param => ({ name: param.name, constraint: param.type }));
+    }
+    if (params.length === 0) return '';
+
+    const rendered = params.map(param =>
+      param.name +
+      (param.constraint ? ` extends ${this.renderType(param.constraint)}` : '') +
+      (param.default ? ` = ${this.renderType(param.default)}` : '')
+    );
+    return `<${rendered.join(', ')}>`;
+  }
+
+  /**
+   * Render a type, converting Closure-style JSDoc syntax for JavaScript sources
+   */
+  renderType(type: string | undefined): string {
+    if (!type) return 'any';
+    if (!this.fromJSDoc) return type;
+
+    let converted = type.trim()
+      // Array.<string> and Object.<string, number>
+      .replace(/\.</g, '<')
+      // Non-nullable !Type
+      .replace(/(^|[(<,|\s])!(?=[\w$])/g, '$1');
+
+    if (converted === '*' || converted === '?') return 'any';
+
+    // Nullable ?Type
+    if (/^\?[\w$]/.test(converted)) {
+      converted = `${converted.substring(1)} | null`;
+    }
+
+    return converted
+      .replace(/\bObject</g, 'Record<')
+      .replace(/\bObject\b/g, 'object')
+      .replace(/\*/g, 'any');
+  }
+}
+
+/**
+ * Render a doc comment summary as a JSDoc block (empty if there is no summary)
+ */
+function renderDoc(doc: DocComment | undefined, indent: string): string {
+  if (!doc || !doc.summary) return '';
+
+  const lines = doc.summary.split('\n');
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map(line => `${indent} *${line ? ' ' + line : ''}\n`).join('')}${indent} */\n`;
+}
@@ -0,0 +1,321 @@
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+/**
+ * A directory entry, as seen without following symbolic links
+ */
+export interface FileEntry {
+  name: string;
+  isFile: boolean;
+  isDirectory: boolean;
+  isSymbolicLink: boolean;
+}
+
+/**
+ * The type and size of a path, after following symbolic links
+ */
+export interface FileStats {
+  isFile: boolean;
+  isDirectory: boolean;
+  /** Size in bytes */
+  size: number;
+}
+
+/**
+ * Where CodeParser lists directories and reads files from.
+ * Paths are the same absolute or cwd-relative paths a file system walk would produce.
+ */
+export interface FileSource {
+  /**
+   * List the entries of a directory
+   * @throws If the directory does not exist
+   */
+  readDirectory(directory: string): FileEntry[];
+
+  /**
+   * Get the type and size of a path, following symbolic links
+   * @returns The stats, or undefined if the path does not exist or is a dangling link
+   */
+  stat(filePath: string): FileStats | undefined;
+
+  /**
+   * Read a file as UTF-8 text
+   * @throws If the file does not exist
+   */
+  readFile(filePath: string): string;
+
+  /**
+   * Read up to `length` characters from the start of a file
+   */
+  readFileStart(filePath: string, length: number): string;
+
+  /**
+   * Resolve a directory to the canonical path used to detect symbolic link loops
+   */
+  realPath(directory: string): string;
+}
+
+/**
+ * Reads the working tree from the local file system
+ */
+export class FileSystemSource implements FileSource {
+  readDirectory(directory: string): FileEntry[] {
+    return fs.readdirSync(directory, { withFileTypes: true }).map(item => ({
+      name: item.name,
+      isFile: item.isFile(),
+      isDirectory: item.isDirectory(),
+      isSymbolicLink: item.isSymbolicLink()
+    }));
+  }
+
+  stat(filePath: string): FileStats | undefined {
+    try {
+      const stats = fs.statSync(filePath);
+      return { isFile: stats.isFile(), isDirectory: stats.isDirectory(), size: stats.size };
+    } catch {
+      return undefined;
+    }
+  }
+
+  readFile(filePath: string): string {
+    return fs.readFileSync(filePath, 'utf8');
+  }
+
+  readFileStart(filePath: string, length: number): string {
+    const buffer = Buffer.alloc(length);
+    const fd = fs.openSync(filePath, 'r');
+    let bytesRead: number;
+    try {
+      bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return buffer.toString('utf8', 0, bytesRead);
+  }
+
+  realPath(directory: string): string {
+    return fs.realpathSync(directory);
+  }
+}
+
+/**
+ * Directory listing built from a flat list of file paths, keyed by absolute path
+ */
+class PathIndex<T> {
+  private files: Map<string, T>;
+  private directories: Map<string, Map<string, FileEntry>>;
+
+  constructor(rootDirectory?: string) {
+    this.files = new Map();
+    this.directories = new Map();
+    if (rootDirectory) {
+      this.directories.set(path.resolve(rootDirectory), new Map());
+    }
+  }
+
+  /**
+   * Add a file (or symbolic link) and all of its missing parent directories
+   */
+  add(filePath: string, value: T, isSymbolicLink: boolean = false): void {
+    let child = path.resolve(filePath);
+    let entry: FileEntry = { name: path.basename(child), isFile: !isSymbolicLink, isDirectory: false, isSymbolicLink };
+    this.files.set(child, value);
+
+    while (true) {
+      const parent = path.dirname(child);
+      const children = this.directories.get(parent);
+      if (children) {
+        children.set(entry.name, entry);
+        return;
+      }
+
+      this.directories.set(parent, new Map([[entry.name, entry]]));
+      if (parent === child) return;
+
+      entry = { name: path.basename(parent), isFile: false, isDirectory: true, isSymbolicLink: false };
+      child = parent;
+    }
+  }
+
+  getFile(filePath: string): T | undefined {
+    return this.files.get(path.resolve(filePath));
+  }
+
+  list(directory: string): FileEntry[] | undefined {
+    const children = this.directories.get(path.resolve(directory));
+    return children ? Array.from(children.values()) : undefined;
+  }
+}
+
+/**
+ * A blob in a git tree
+ */
+interface GitBlob {
+  /** Object id */
+  oid: string;
+  /** Size in bytes */
+  size: number;
+  /** Whether the blob is the target of a symbolic link rather than file content */
+  isSymbolicLink: boolean;
+}
+
+/**
+ * Reads the files of a git revision from the local object database, leaving the working tree untouched.
+ * Symbolic links in the revision are listed but never followed, and submodules are skipped.
+ */
+export class GitRevisionSource implements FileSource {
+  private repositoryRoot: string;
+  private revision: string;
+  private commit: string;
+  private index: PathIndex<GitBlob>;
+
+  /**
+   * Load the file list of a revision
+   * @param directory Any directory inside the repository's working tree
+   * @param revision Commit, branch, tag or other revision expression
+   * @throws If the directory is not inside a git repository or the revision does not name a commit
+   */
+  constructor(directory: string, revision: string) {
+    this.revision = revision;
+
+    // Resolve the root relative to the given directory rather than asking for git's
+    // canonical path, so file paths keep the spelling the caller uses
+    const start = existingAncestor(path.resolve(directory));
+    this.repositoryRoot = path.resolve(start, runGit(start, ['rev-parse', '--show-cdup']).trim());
+
+    try {
+      this.commit = runGit(this.repositoryRoot, ['rev-parse', '--verify', '--quiet', `${revision}^{commit}`]).trim();
+    } catch {
+      throw new Error(`Unknown git revision: ${revision}`);
+    }
+
+    this.index = new PathIndex(this.repositoryRoot);
+
+    // <mode> SP <type> SP <object> SP+ <size> TAB <path>, NUL-terminated
+    const listing = runGit(this.repositoryRoot, ['ls-tree', '-r', '-z', '-l', '--full-tree', this.commit]);
+    for (const record of listing.split('\0')) {
+      const match = record.match(/^(\d+) (\w+) ([0-9a-f]+) +(\d+|-)\t([\s\S]+)$/);
+      if (!match || match[2] !== 'blob') continue;
+
+      const [, mode, , oid, size, repositoryPath] = match;
+      const isSymbolicLink = mode === '120000';
+      this.index.add(path.join(this.repositoryRoot, repositoryPath), { oid, size: Number(size), isSymbolicLink }, isSymbolicLink);
+    }
+  }
+
+  readDirectory(directory: string): FileEntry[] {
+    const entries = this.index.list(directory);
+    if (!entries) {
+      throw new Error(`No such directory in ${this.revision}: ${directory}`);
+    }
+    return entries;
+  }
+
+  stat(filePath: string): FileStats | undefined {
+    const blob = this.index.getFile(filePath);
+    if (blob) {
+      return blob.isSymbolicLink ? undefined : { isFile: true, isDirectory: false, size: blob.size };
+    }
+    return this.index.list(filePath) ? { isFile: false, isDirectory: true, size: 0 } : undefined;
+  }
+
+  readFile(filePath: string): string {
+    const blob = this.index.getFile(filePath);
+    if (!blob || blob.isSymbolicLink) {
+      throw new Error(`No such file in ${this.revision}: ${filePath}`);
+    }
+    return runGit(this.repositoryRoot, ['cat-file', 'blob', blob.oid], blob.size + 1024);
+  }
+
+  readFileStart(filePath: string, length: number): string {
+    return this.readFile(filePath).substring(0, length);
+  }
+
+  realPath(directory: string): string {
+    return path.resolve(directory);
+  }
+
+  /**
+   * List the files below a directory that differ between this revision and the working tree,
+   * including staged, unstaged and untracked (but not ignored) files
+   * @param directory Directory in the working tree
+   * @returns Paths joined onto `directory`, as a directory walk would produce them, in sorted order
+   */
+  changedFiles(directory: string): string[] {
+    const diff = runGit(directory, ['diff', '--name-only', '-z', '--no-renames', '--relative', this.commit, '--']);
+    const untracked = runGit(directory, ['ls-files', '--others', '--exclude-standard', '-z']);
+
+    const files = new Set([...diff.split('\0'), ...untracked.split('\0')].filter(Boolean));
+    return Array.from(files).sort().map(file => path.join(directory, file));
+  }
+}
+
+/**
+ * Serves files from memory, for sources that do not live on disk
+ */
+export class MemoryFileSource implements FileSource {
+  private index: PathIndex<string>;
+
+  /**
+   * Create a source from file contents
+   * @param files File contents keyed by path
+   */
+  constructor(files: Record<string, string>) {
+    this.index = new PathIndex();
+    for (const [filePath, content] of Object.entries(files)) {
+      this.index.add(filePath, content);
+    }
+  }
+
+  readDirectory(directory: string): FileEntry[] {
+    const entries = this.index.list(directory);
+    if (!entries) {
+      throw new Error(`No such directory: ${directory}`);
+    }
+    return entries;
+  }
+
+  stat(filePath: string): FileStats | undefined {
+    const content = this.index.getFile(filePath);
+    if (content !== undefined) {
+      return { isFile: true, isDirectory: false, size: Buffer.byteLength(content) };
+    }
+    return this.index.list(filePath) ? { isFile: false, isDirectory: true, size: 0 } : undefined;
+  }
+
+  readFile(filePath: string): string {
+    const content = this.index.getFile(filePath);
+    if (content === undefined) {
+      throw new Error(`No such file: ${filePath}`);
+    }
+    return content;
+  }
+
+  readFileStart(filePath: string, length: number): string {
+    return this.readFile(filePath).substring(0, length);
+  }
+
+  realPath(directory: string): string {
+    return path.resolve(directory);
+  }
+}
+
+/**
+ * Run a git command and return its standard output
+ */
+function runGit(cwd: string, args: string[], maxBuffer: number = 64 * 1024 * 1024): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer, stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+/**
+ * Find the closest ancestor of a path that exists in the working tree,
+ * so revisions can be read for directories that were since deleted
+ */
+function existingAncestor(directory: string): string {
+  let current = directory;
+  while (!fs.existsSync(current) && path.dirname(current) !== current) {
+    current = path.dirname(current);
+  }
+  return current;
+}
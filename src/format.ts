@@ -0,0 +1,162 @@
+import path from 'path';
+import type {
+  FileDeclaration,
+  FunctionDeclaration,
+  InterfaceMember,
+  DocComment
+} from './types';
+import { toPosixPath } from './ignore';
+import { collapseWhitespace, formatParameters, formatSignature, formatTypeParameters, normalizeType } from './signature';
+
+/**
+ * Output formats of the parse results
+ */
+export type OutputFormat = 'json' | 'ndjson' | 'markdown' | 'text' | 'dts';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'ndjson', 'markdown', 'text', 'dts'];
+
+// Extensions of languages whose line comments start with `#` rather than `//`
+const HASH_COMMENT_EXTENSIONS = new Set(['.py', '.rb']);
+
+/**
+ * A declaration rendered as a single line
+ */
+interface SignatureLine {
+  lineNo: number;
+  signature: string;
+  /** First paragraph of the doc comment, on one line (if any) */
+  summary?: string;
+}
+
+/**
+ * Format parse results as a compact digest with one signature per line,
+ * e.g. `src/a.ts:33 add(a: number, b: number): number`
+ * @param fileDeclarations Parse results
+ */
+export function formatText(fileDeclarations: FileDeclaration[]): string {
+  const lines: string[] = [];
+
+  for (const fileDecl of fileDeclarations) {
+    const fileName = toPosixPath(fileDecl.fileName);
+    for (const line of collectSignatures(fileDecl)) {
+      lines.push(`${fileName}:${line.lineNo} ${line.signature}`);
+    }
+  }
+
+  return lines.join('\n') + (lines.length > 0 ? '\n' : '');
+}
+
+/**
+ * Format parse results as a Markdown digest: a heading per file and a code block
+ * of its signatures, each preceded by its doc summary as a comment of the file's language
+ * @param fileDeclarations Parse results
+ */
+export function formatMarkdown(fileDeclarations: FileDeclaration[]): string {
+  const sections: string[] = [];
+
+  for (const fileDecl of fileDeclarations) {
+    const signatures = collectSignatures(fileDecl);
+    if (signatures.length === 0) continue;
+
+    const extension = path.extname(fileDecl.fileName);
+    const comment = HASH_COMMENT_EXTENSIONS.has(extension.toLowerCase()) ? '#' : '//';
+    const body = signatures.map(line => (line.summary ? `${comment} ${line.summary}\n` : '') + line.signature);
+    sections.push(`## ${toPosixPath(fileDecl.fileName)}\n\n\`\`\`${extension.substring(1)}\n${body.join('\n')}\n\`\`\`\n`);
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Render every declaration of a file, in source order
+ */
+function collectSignatures(fileDecl: FileDeclaration): SignatureLine[] {
+  const lines: SignatureLine[] = [];
+  const add = (lineNo: number, signature: string, doc?: DocComment) => {
+    lines.push({ lineNo, signature, summary: summarize(doc) });
+  };
+
+  for (const func of fileDecl.functions) {
+    // Function-type aliases are listed once, as type aliases
+    if (func.typeAlias) continue;
+    add(func.lineNo, formatFunction(func.functionName, func), func.doc);
+  }
+
+  for (const cls of fileDecl.classes) {
+    add(cls.lineNo, cls.signature, cls.doc);
+    for (const method of cls.methods) {
+      add(method.lineNo, formatFunction(`${cls.className}.${method.functionName}`, method), method.doc);
+    }
+  }
+
+  for (const decl of fileDecl.interfaces) {
+    const heritage = decl.extends ? ` extends ${decl.extends.map(normalizeType).join(', ')}` : '';
+    add(decl.lineNo, `interface ${decl.interfaceName}${formatTypeParameters(decl.typeParameters)}${heritage}`, decl.doc);
+    for (const member of decl.members) {
+      add(member.lineNo, formatInterfaceMember(decl.interfaceName, member), member.doc);
+    }
+  }
+
+  for (const decl of fileDecl.typeAliases) {
+    add(decl.lineNo, `type ${decl.aliasName}${formatTypeParameters(decl.typeParameters)} = ${normalizeType(decl.type)}`, decl.doc);
+  }
+
+  for (const decl of fileDecl.enums) {
+    const members = decl.members.map(member => (member.value !== undefined ? `${member.name} = ${member.value}` : member.name));
+    add(decl.lineNo, `enum ${decl.enumName} { ${members.join(', ')} }`, decl.doc);
+  }
+
+  // Stable sort keeps a class ahead of a method declared on the same line
+  return lines.sort((a, b) => a.lineNo - b.lineNo);
+}
+
+/**
+ * Render a function or method, e.g. `static async load<T>(id: string): Promise<T>`
+ */
+function formatFunction(name: string, func: FunctionDeclaration): string {
+  const modifiers = [
+    func.accessibility && func.accessibility !== 'public' ? func.accessibility : '',
+    func.static ? 'static' : '',
+    func.abstract ? 'abstract' : '',
+    func.kind === 'getter' ? 'get' : func.kind === 'setter' ? 'set' : '',
+    func.async ? 'async' : ''
+  ].filter(Boolean);
+
+  // Signatures are in the syntax of their language; render them under the qualified name
+  const signature = func.signature.startsWith(func.functionName)
+    ? name + func.signature.substring(func.functionName.length)
+    : formatSignature(name, func);
+  return [...modifiers, (func.generator ? '*' : '') + signature].join(' ');
+}
+
+/**
+ * Render an interface member, e.g. `Options.debug?: boolean`, `Options[key: string]: unknown`
+ * or `new Options(name: string): Options`
+ */
+function formatInterfaceMember(interfaceName: string, member: InterfaceMember): string {
+  const optional = member.optional ? '?' : '';
+  const readonly = member.readonly ? 'readonly ' : '';
+  const returnType = member.returnType ? `: ${normalizeType(member.returnType)}` : '';
+  const callable = `${formatTypeParameters(member.typeParameters || [])}(${formatParameters(member.parameters || [])})${returnType}`;
+
+  switch (member.kind) {
+    case 'method':
+      return `${interfaceName}.${member.name}${optional}${callable}`;
+    case 'call':
+      return `${interfaceName}${callable}`;
+    case 'construct':
+      return `new ${interfaceName}${callable}`;
+    case 'index':
+      return `${readonly}${interfaceName}${member.name}: ${normalizeType(member.type || '')}`;
+    default:
+      return `${readonly}${interfaceName}.${member.name}${optional}${member.type ? `: ${normalizeType(member.type)}` : ''}`;
+  }
+}
+
+/**
+ * Reduce a doc comment to the first paragraph of its summary, on one line
+ */
+function summarize(doc?: DocComment): string | undefined {
+  if (!doc || !doc.summary) return undefined;
+  return collapseWhitespace(doc.summary.split(/\n\s*\n/)[0]);
+}
@@ -0,0 +1,360 @@
+import type {
+  FileDeclaration,
+  FunctionDeclaration,
+  ClassDeclaration,
+  InterfaceDeclaration,
+  InterfaceMember,
+  TypeAliasDeclaration,
+  ParameterInfo,
+  TypeParameterInfo,
+  DocComment,
+  SourceLocation,
+  SourceRange
+} from './types';
+import { normalizeType } from './signature';
+import type { CallSignature } from './signature';
+
+/**
+ * Extract declarations from a Go syntax tree:
+ * - functions, and function types as both functions and type aliases (like TypeScript function types)
+ * - struct types, and other types with methods in the same file, as classes with those methods.
+ *   Struct fields are part of the class signature.
+ * - interfaces, with their method set as members (embedded interfaces and type constraints are left out)
+ * - other type definitions and aliases as type aliases
+ * Methods of a type declared in another file of the package are listed as functions named `Type.Method`.
+ * Names are exported when they start with an upper-case letter; unexported methods are private.
+ * Ids are left empty for the caller to assign.
+ * @param rootNode The `source_file` node of the tree
+ * @param getRange Gets the source range of a node
+ */
+export function extractGoDeclarations(
+  rootNode: any,
+  getRange: (node: any) => SourceRange
+): Omit<FileDeclaration, 'fileName'> {
+  const functions: FunctionDeclaration[] = [];
+  const classes: ClassDeclaration[] = [];
+  const interfaces: InterfaceDeclaration[] = [];
+  const typeAliases: TypeAliasDeclaration[] = [];
+
+  const methodsByType = new Map<string, FunctionDeclaration[]>();
+  const typeSpecs: any[] = [];
+
+  const getSourceLocation = (node: any, bodyNode: any): SourceLocation => {
+    const nameNode = node.childForFieldName('name');
+    return {
+      range: getRange(getDeclarationNode(node)),
+      nameRange: nameNode ? getRange(nameNode) : undefined,
+      bodyRange: bodyNode ? getRange(bodyNode) : undefined
+    };
+  };
+
+  const toFunction = (node: any, name: string, signatureNode: any, isMethod: boolean): FunctionDeclaration => {
+    const typeParameters = extractTypeParameters(node);
+    const parameters = extractParameters(signatureNode.childForFieldName('parameters'));
+    const resultNode = signatureNode.childForFieldName('result');
+    const returnType = resultNode ? resultNode.text : undefined;
+
+    return {
+      id: '',
+      functionName: name,
+      lineNo: node.startPosition.row + 1,
+      typeParameters,
+      parameters,
+      returnType,
+      signature: formatGoSignature(name, { typeParameters, parameters, returnType }),
+      doc: getDocComment(getDeclarationNode(node)),
+      ...getSourceLocation(node, node.childForFieldName('body')),
+      kind: isMethod ? 'method' : 'function',
+      async: false,
+      generator: false,
+      static: false,
+      abstract: false,
+      readonly: false,
+      ...(isMethod && !isExportedName(name) ? { accessibility: 'private' as const } : {}),
+      exported: !isMethod && isExportedName(name),
+      defaultExport: false,
+      reExported: false
+    };
+  };
+
+  for (let i = 0; i < rootNode.namedChildCount; i++) {
+    const node = rootNode.namedChild(i);
+
+    if (node.type === 'function_declaration') {
+      functions.push(toFunction(node, node.childForFieldName('name').text, node, false));
+    } else if (node.type === 'method_declaration') {
+      const receiverType = getReceiverTypeName(node.childForFieldName('receiver'));
+      const method = toFunction(node, node.childForFieldName('name').text, node, true);
+      const methods = methodsByType.get(receiverType) || [];
+      methods.push(method);
+      methodsByType.set(receiverType, methods);
+    } else if (node.type === 'type_declaration') {
+      for (let j = 0; j < node.namedChildCount; j++) {
+        const spec = node.namedChild(j);
+        if (spec.type === 'type_spec' || spec.type === 'type_alias') typeSpecs.push(spec);
+      }
+    }
+  }
+
+  for (const spec of typeSpecs) {
+    const name = spec.childForFieldName('name').text;
+    const typeNode = spec.childForFieldName('type');
+    const typeParameters = extractTypeParameters(spec);
+    const methods = methodsByType.get(name);
+    const exportInfo = { exported: isExportedName(name), defaultExport: false, reExported: false };
+    const doc = getDocComment(getDeclarationNode(spec));
+
+    // Aliases (`type A = B`) cannot have methods of their own
+    if (spec.type === 'type_spec' && (typeNode.type === 'struct_type' || methods)) {
+      methodsByType.delete(name);
+      classes.push({
+        id: '',
+        className: name,
+        lineNo: spec.startPosition.row + 1,
+        typeParameters,
+        signature: normalizeType(`type ${name}${typeParametersText(spec)} ${typeNode.type === 'struct_type' ? structText(typeNode) : typeNode.text}`),
+        abstract: false,
+        methods: methods || [],
+        doc,
+        ...getSourceLocation(spec, typeNode.type === 'struct_type' ? typeNode.namedChild(0) : typeNode),
+        ...exportInfo
+      });
+    } else if (spec.type === 'type_spec' && typeNode.type === 'interface_type') {
+      interfaces.push({
+        id: '',
+        interfaceName: name,
+        lineNo: spec.startPosition.row + 1,
+        typeParameters,
+        members: extractInterfaceMembers(typeNode),
+        doc,
+        ...getSourceLocation(spec, typeNode),
+        ...exportInfo
+      });
+    } else {
+      typeAliases.push({
+        id: '',
+        aliasName: name,
+        lineNo: spec.startPosition.row + 1,
+        typeParameters,
+        type: typeNode.text,
+        doc,
+        ...getSourceLocation(spec, typeNode),
+        ...exportInfo
+      });
+
+      if (typeNode.type === 'function_type') {
+        functions.push({ ...toFunction(spec, name, typeNode, false), typeAlias: true, exported: exportInfo.exported });
+      }
+    }
+  }
+
+  // Methods whose receiver type is declared in another file of the package
+  for (const [typeName, methods] of methodsByType) {
+    for (const method of methods) {
+      const functionName = `${typeName}.${method.functionName}`;
+      functions.push({
+        ...method,
+        functionName,
+        signature: formatGoSignature(functionName, method),
+        exported: isExportedName(typeName) && isExportedName(method.functionName)
+      });
+    }
+  }
+
+  // Keep source order, which the grouping above does not preserve
+  functions.sort((a, b) => a.range.start.offset - b.range.start.offset);
+
+  return { functions, classes, interfaces, typeAliases, enums: [] };
+}
+
+/**
+ * Check whether a Go identifier is exported (starts with an upper-case letter)
+ */
+function isExportedName(name: string): boolean {
+  return /^\p{Lu}/u.test(name);
+}
+
+/**
+ * Get the node a declaration's range and doc comment belong to: a type spec that is the only
+ * one in its `type` declaration covers the `type` keyword too
+ */
+function getDeclarationNode(node: any): any {
+  const parent = node.parent;
+  if ((node.type === 'type_spec' || node.type === 'type_alias') &&
+      parent && parent.type === 'type_declaration' && parent.namedChildCount === 1) {
+    return parent;
+  }
+  return node;
+}
+
+/**
+ * Get the name of a method's receiver type, e.g. `Store` for `(s *Store[K, V])`
+ */
+function getReceiverTypeName(receiver: any): string {
+  const param = receiver ? receiver.namedChildren.find((child: any) => child.type === 'parameter_declaration') : undefined;
+  let typeNode = param ? param.childForFieldName('type') : null;
+
+  while (typeNode && typeNode.type !== 'type_identifier') {
+    typeNode = typeNode.type === 'pointer_type' ? typeNode.namedChild(0) : typeNode.childForFieldName('type');
+  }
+  return typeNode ? typeNode.text : '';
+}
+
+/**
+ * Render a struct type with its fields on one line, leaving out tags and comments,
+ * e.g. `struct { items map[K]V; Name string; sync.Mutex }`
+ */
+function structText(structNode: any): string {
+  const fieldList = structNode.namedChild(0);
+  const fields: string[] = [];
+
+  if (fieldList) {
+    for (let i = 0; i < fieldList.namedChildCount; i++) {
+      const field = fieldList.namedChild(i);
+      if (field.type !== 'field_declaration') continue;
+
+      const names = field.childrenForFieldName('name').map((name: any) => name.text);
+      const type = field.childForFieldName('type');
+      // Embedded fields have a type but no name
+      fields.push(names.length > 0 ? `${names.join(', ')} ${type.text}` : type.text);
+    }
+  }
+
+  return fields.length > 0 ? `struct { ${fields.join('; ')} }` : 'struct{}';
+}
+
+function typeParametersText(node: any): string {
+  const typeParametersNode = node.childForFieldName('type_parameters');
+  return typeParametersNode ? typeParametersNode.text : '';
+}
+
+/**
+ * Extract the methods of an interface type
+ */
+function extractInterfaceMembers(interfaceNode: any): InterfaceMember[] {
+  const members: InterfaceMember[] = [];
+
+  for (let i = 0; i < interfaceNode.namedChildCount; i++) {
+    const child = interfaceNode.namedChild(i);
+    if (child.type !== 'method_elem') continue;
+
+    const resultNode = child.childForFieldName('result');
+    members.push({
+      name: child.childForFieldName('name').text,
+      kind: 'method',
+      lineNo: child.startPosition.row + 1,
+      optional: false,
+      typeParameters: [],
+      parameters: extractParameters(child.childForFieldName('parameters')),
+      returnType: resultNode ? resultNode.text : undefined,
+      doc: getDocComment(child)
+    });
+  }
+
+  return members;
+}
+
+/**
+ * Extract parameters. Names sharing a type (`a, b int`) become separate parameters,
+ * unnamed parameters are named `_`, and variadic parameters keep `...` in their type
+ * and are marked `variadic`.
+ */
+function extractParameters(parameterList: any): ParameterInfo[] {
+  const parameters: ParameterInfo[] = [];
+  if (!parameterList) return parameters;
+
+  for (let i = 0; i < parameterList.namedChildCount; i++) {
+    const param = parameterList.namedChild(i);
+    if (param.type !== 'parameter_declaration' && param.type !== 'variadic_parameter_declaration') continue;
+
+    const typeNode = param.childForFieldName('type');
+    const variadic = param.type === 'variadic_parameter_declaration';
+    const type = (variadic ? '...' : '') + (typeNode ? typeNode.text : '');
+    const names = param.childrenForFieldName('name').map((name: any) => name.text);
+
+    for (const name of names.length > 0 ? names : ['_']) {
+      parameters.push({ name, type, optional: false, ...(variadic ? { variadic } : {}) });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Render a signature in Go syntax, e.g. `Map[T any, U any](xs []T, f func(T) U) []U`
+ */
+function formatGoSignature(name: string, func: CallSignature): string {
+  const typeParameters = func.typeParameters.length > 0
+    ? `[${func.typeParameters.map(param => param.name + (param.constraint ? ` ${normalizeType(param.constraint)}` : '')).join(', ')}]`
+    : '';
+  const parameters = func.parameters.map(param => `${param.name} ${normalizeType(param.type)}`);
+  const result = func.returnType ? ` ${normalizeType(func.returnType)}` : '';
+  return `${name}${typeParameters}(${parameters.join(', ')})${result}`;
+}
+
+/**
+ * Extract type parameters, e.g. `[K comparable, V any]`; names sharing a constraint become separate entries
+ */
+function extractTypeParameters(node: any): TypeParameterInfo[] {
+  const typeParameters: TypeParameterInfo[] = [];
+  const typeParametersNode = node.childForFieldName('type_parameters');
+  if (!typeParametersNode) return typeParameters;
+
+  for (let i = 0; i < typeParametersNode.namedChildCount; i++) {
+    const declaration = typeParametersNode.namedChild(i);
+    if (declaration.type !== 'type_parameter_declaration') continue;
+
+    const constraintNode = declaration.childForFieldName('type');
+    for (const name of declaration.childrenForFieldName('name')) {
+      typeParameters.push({ name: name.text, ...(constraintNode ? { constraint: constraintNode.text } : {}) });
+    }
+  }
+
+  return typeParameters;
+}
+
+/**
+ * Parse the comment lines directly above a declaration as its doc comment.
+ * A paragraph starting with `Deprecated:` is the deprecation notice, as in godoc.
+ */
+function getDocComment(node: any): DocComment | undefined {
+  const lines: string[] = [];
+  let expectedRow = node.startPosition.row;
+
+  for (let comment = node.previousNamedSibling; comment && comment.type === 'comment'; comment = comment.previousNamedSibling) {
+    // Only comments on the lines right above belong to the declaration
+    if (comment.endPosition.row !== expectedRow - 1) break;
+    lines.unshift(...stripCommentDelimiters(comment.text));
+    expectedRow = comment.startPosition.row;
+  }
+  if (lines.length === 0) return undefined;
+
+  const doc: DocComment = { summary: '', params: [], typeParams: [], throws: [], examples: [], see: [], tags: [] };
+  const paragraphs = lines.join('\n').split(/\n\s*\n/);
+  const summary: string[] = [];
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.startsWith('Deprecated:')) {
+      doc.deprecated = { description: paragraph.substring('Deprecated:'.length).replace(/\s+/g, ' ').trim() };
+    } else {
+      summary.push(paragraph);
+    }
+  }
+
+  doc.summary = summary.join('\n\n').trim();
+  return doc;
+}
+
+/**
+ * Get the text lines of a `//` or `/* *\/` comment
+ */
+function stripCommentDelimiters(comment: string): string[] {
+  if (comment.startsWith('//')) {
+    return [comment.substring(2).replace(/^ /, '')];
+  }
+  return comment
+    .replace(/^\/\*/, '')
+    .replace(/\*\/$/, '')
+    .split('\n')
+    .map(line => line.trim());
+}
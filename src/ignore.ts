@@ -0,0 +1,237 @@
+import path from 'path';
+import { FileSystemSource } from './file-source';
+import type { FileSource } from './file-source';
+import { consoleLogger } from './logger';
+import type { Logger } from './types';
+
+/**
+ * Names of the ignore files honored in every directory
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.funsigignore'];
+
+/**
+ * Patterns that are always ignored unless ignore files are disabled
+ */
+export const DEFAULT_IGNORE_PATTERNS = ['node_modules/'];
+
+/**
+ * A single compiled gitignore-style pattern
+ */
+interface PatternRule {
+  /** Regular expression matched against the path relative to `base` */
+  regex: RegExp;
+  /** Whether the pattern re-includes a previously ignored path (`!pattern`) */
+  negated: boolean;
+  /** Whether the pattern only matches directories (`pattern/`) */
+  directoryOnly: boolean;
+  /** Directory the pattern is relative to, as a '/'-separated path relative to the root ('' for the root) */
+  base: string;
+}
+
+/**
+ * Convert a glob body to a regular expression source.
+ * Supports `*`, `?`, `**`, character classes and backslash escapes.
+ */
+function globToRegExpSource(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atSegmentStart && atSegmentEnd) {
+          if (i + 2 === glob.length) {
+            // Trailing '**' matches everything below
+            source += '.*';
+          } else {
+            // '**/' matches zero or more directories
+            source += '(?:.*/)?';
+            i++;
+          }
+          i++;
+          continue;
+        }
+        // '**' inside a segment behaves like '*'
+        i++;
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = glob.substring(i + 1, end).replace(/\\/g, '\\\\');
+      if (body.startsWith('!')) {
+        body = '^' + body.substring(1);
+      }
+      source += '[' + body + ']';
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Compile one gitignore-style pattern line
+ * @param line Pattern line
+ * @param base Directory the pattern is relative to ('' for the root)
+ * @returns The compiled rule, or null for blank lines and comments
+ */
+function compilePattern(line: string, base: string): PatternRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.substring(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.substring(1);
+  }
+
+  let directoryOnly = false;
+  if (pattern.endsWith('/')) {
+    directoryOnly = true;
+    pattern = pattern.replace(/\/+$/, '');
+  }
+  if (!pattern) return null;
+
+  // Patterns containing a slash (other than a trailing one) are anchored to their base;
+  // others match a file or directory name at any depth
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+
+  const source = globToRegExpSource(pattern);
+  const regex = new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+
+  return { regex, negated, directoryOnly, base };
+}
+
+/**
+ * Normalize a relative path to use '/' separators
+ */
+export function toPosixPath(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * An ordered set of gitignore-style patterns.
+ * Later patterns take precedence, so a negated pattern can re-include a path.
+ */
+export class PathMatcher {
+  private rules: PatternRule[];
+
+  /**
+   * Create a matcher from pattern lines
+   * @param patterns Pattern lines, relative to `base`
+   * @param base Directory the patterns are relative to ('' for the root)
+   */
+  constructor(patterns: string[] = [], base: string = '') {
+    this.rules = [];
+    this.addPatterns(patterns, base);
+  }
+
+  /**
+   * Whether the matcher contains no patterns
+   */
+  get isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /**
+   * Create a new matcher with additional patterns appended
+   * @param patterns Pattern lines, relative to `base`
+   * @param base Directory the patterns are relative to
+   */
+  extend(patterns: string[], base: string): PathMatcher {
+    const matcher = new PathMatcher();
+    matcher.rules = [...this.rules];
+    matcher.addPatterns(patterns, base);
+    return matcher;
+  }
+
+  /**
+   * Check whether a path matches the patterns
+   * @param relativePath '/'-separated path relative to the root
+   * @param isDirectory Whether the path is a directory
+   */
+  matches(relativePath: string, isDirectory: boolean): boolean {
+    let matched = false;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (matched === !rule.negated) continue;
+
+      let candidate = relativePath;
+      if (rule.base) {
+        if (!relativePath.startsWith(rule.base + '/')) continue;
+        candidate = relativePath.substring(rule.base.length + 1);
+      }
+
+      if (rule.regex.test(candidate)) {
+        matched = !rule.negated;
+      }
+    }
+
+    return matched;
+  }
+
+  private addPatterns(patterns: string[], base: string): void {
+    for (const line of patterns) {
+      const rule = compilePattern(line, base);
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+  }
+}
+
+/**
+ * Read the ignore files of a directory and append their patterns to a matcher
+ * @param matcher Matcher holding the patterns of parent directories
+ * @param directory Absolute or cwd-relative directory path
+ * @param base The directory as a '/'-separated path relative to the walk root
+ * @param fileSource Source to read the ignore files from
+ * @param logger Where unreadable ignore files are reported (default: the console)
+ */
+export function loadIgnoreFiles(
+  matcher: PathMatcher,
+  directory: string,
+  base: string,
+  fileSource: FileSource = new FileSystemSource(),
+  logger: Logger = consoleLogger
+): PathMatcher {
+  let result = matcher;
+
+  for (const fileName of IGNORE_FILE_NAMES) {
+    const ignoreFile = path.join(directory, fileName);
+    if (!fileSource.stat(ignoreFile)) continue;
+
+    try {
+      const lines = fileSource.readFile(ignoreFile).split(/\r?\n/);
+      result = result.extend(lines, base);
+    } catch (error) {
+      logger.warn(`Failed to read ignore file ${ignoreFile}:`, error);
+    }
+  }
+
+  return result;
+}
@@ -1,18 +1,53 @@
 #!/usr/bin/env bun
 
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { parseDirectory } from './parser';
-import type { ParserOptions } from './types';
+import { parseDirectory, parseDirectoryStream } from './parser';
+import { DeclarationCache, DEFAULT_CACHE_DIR } from './cache';
+import { watchDirectory } from './watch';
+import { formatChange } from './diff';
+import { diffSinceRevision } from './since';
+import { formatMarkdown, formatText, OUTPUT_FORMATS } from './format';
+import type { OutputFormat } from './format';
+import { getDeclarationFileName, renderDeclarationFile } from './dts';
+import { buildOutputEnvelope } from './output';
+import { buildApiReport, compareApiReports, formatApiReport } from './api-report';
+import { toPosixPath } from './ignore';
+import { loadConfig, DEFAULT_CONFIG_FILE } from './config';
+import type { ApiReport, FileDeclaration, ParserOptions } from './types';
+
+// Default path of the committed API report
+const DEFAULT_REPORT_FILE = 'funsig-api-report.json';
+
+type CliOptions = ParserOptions & {
+  command?: 'api-report',
+  outputFile?: string,
+  directorySpecified?: boolean,
+  clearCache?: boolean,
+  watch?: boolean,
+  reportFile?: string,
+  check?: boolean,
+  since?: string,
+  configFile?: string,
+  format: OutputFormat
+};
 
 // Parse command line arguments
-function parseArgs(): ParserOptions & { outputFile?: string, directorySpecified?: boolean } {
+function parseArgs(): CliOptions {
   const args = process.argv.slice(2);
-  const options: ParserOptions & { outputFile?: string, directorySpecified?: boolean } = {
+  const options: CliOptions = {
     directory: '.',
-    directorySpecified: false
+    directorySpecified: false,
+    concurrency: os.cpus().length,
+    format: 'json'
   };
 
+  if (args[0] === 'api-report') {
+    options.command = 'api-report';
+    args.shift();
+  }
+
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     
@@ -21,6 +56,59 @@ function parseArgs(): ParserOptions & { outputFile?: string, directorySpecified?
       options.directorySpecified = true;
     } else if (arg === '--output' || arg === '-o') {
       options.outputFile = args[++i];
+    } else if (arg === '--format' || arg === '-f') {
+      const format = args[++i] as OutputFormat;
+      if (!OUTPUT_FORMATS.includes(format)) {
+        console.error(`Error: Invalid --format value: ${args[i]} (expected ${OUTPUT_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+      options.format = format;
+    } else if (arg === '--include' || arg === '--exclude') {
+      const pattern = args[++i];
+      if (pattern === undefined) {
+        console.error(`Error: Missing ${arg} value`);
+        process.exit(1);
+      }
+      const key = arg === '--include' ? 'include' : 'exclude';
+      options[key] = [...(options[key] || []), pattern];
+    } else if (arg === '--no-ignore') {
+      options.useIgnoreFiles = false;
+    } else if (arg === '--follow-symlinks') {
+      options.followSymlinks = true;
+    } else if (arg === '--max-file-size') {
+      const maxFileSize = Number(args[++i]);
+      if (!Number.isFinite(maxFileSize) || maxFileSize <= 0) {
+        console.error(`Error: Invalid --max-file-size value: ${args[i]}`);
+        process.exit(1);
+      }
+      options.maxFileSize = maxFileSize;
+    } else if (arg === '--include-minified') {
+      options.includeMinified = true;
+    } else if (arg === '--cache') {
+      options.cacheDir = options.cacheDir || DEFAULT_CACHE_DIR;
+    } else if (arg === '--cache-dir') {
+      options.cacheDir = args[++i];
+    } else if (arg === '--concurrency' || arg === '-j') {
+      const concurrency = Number(args[++i]);
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        console.error(`Error: Invalid --concurrency value: ${args[i]}`);
+        process.exit(1);
+      }
+      options.concurrency = concurrency;
+    } else if (arg === '--rev') {
+      options.rev = args[++i];
+    } else if (arg === '--since') {
+      options.since = args[++i];
+    } else if (arg === '--watch' || arg === '-w') {
+      options.watch = true;
+    } else if (arg === '--config') {
+      options.configFile = args[++i];
+    } else if (arg === '--clear-cache') {
+      options.clearCache = true;
+    } else if (arg === '--report') {
+      options.reportFile = args[++i];
+    } else if (arg === '--check') {
+      options.check = true;
     } else if (arg === '--help' || arg === '-h') {
       printHelp();
       process.exit(0);
@@ -35,11 +123,37 @@ function printHelp(): void {
   console.log(`
 Function Signature Extractor (funsig)
 Usage: funsig [options]
+       funsig api-report [options] [--report <file>] [--check]
 
 Options:
   --directory, -d <path>     Directory to search for files (default: current directory)
   --output, -o <file>        Output file path (default: stdout)
+  --format, -f <format>      Output format: json, ndjson, markdown, text or dts (default: json);
+                             json wraps the results in a versioned envelope (schema/funsig-output.schema.json);
+                             ndjson writes one line per file as soon as it is parsed;
+                             with dts, --output names a directory for one .d.ts file per source file
+  --include <glob>           Only parse files matching the glob (repeatable)
+  --exclude <glob>           Skip files and directories matching the glob (repeatable)
+  --no-ignore                Do not honor .gitignore/.funsigignore or skip node_modules
+  --follow-symlinks          Follow symbolic links (loops are detected and skipped)
+  --max-file-size <bytes>    Skip files larger than this (default: 1048576)
+  --include-minified         Parse files that look minified
+  --cache                    Reuse results for unchanged files (cache in ${DEFAULT_CACHE_DIR})
+  --cache-dir <path>         Cache directory (implies --cache)
+  --clear-cache              Delete the cache before running
+  --concurrency, -j <n>      Number of worker threads (default: number of CPU cores)
+  --rev <commit>             Read files from a git revision instead of the working tree
+  --since <ref>              Only parse files changed since a git ref (including staged and
+                             untracked files) and report the added, removed and changed declarations
+  --watch, -w                Keep running and print signature changes as files are edited
+  --config <file>            Config file listing language adapter modules
+                             (default: ${DEFAULT_CONFIG_FILE} in the current directory, if present)
   --help, -h                 Show this help message
+
+API report options:
+  --report <file>            Report file path (default: ${DEFAULT_REPORT_FILE})
+  --check                    Compare against the report instead of writing it;
+                             exits with status 1 on breaking changes
   `);
 }
 
@@ -48,6 +162,23 @@ async function main(): Promise<void> {
   try {
     const options = parseArgs();
     
+    // Language adapters have to be registered before any file is parsed
+    if (options.configFile) {
+      loadConfig(options.configFile);
+    } else if (fs.existsSync(DEFAULT_CONFIG_FILE)) {
+      loadConfig(DEFAULT_CONFIG_FILE);
+    }
+    
+    if (options.clearCache) {
+      new DeclarationCache(options.cacheDir || DEFAULT_CACHE_DIR).clear();
+      console.error('Cache cleared');
+      
+      // Clearing the cache on its own is a complete command
+      if (!options.directorySpecified) {
+        return;
+      }
+    }
+    
     // Abort if no directory was explicitly specified
     if (!options.directorySpecified) {
       console.error('Error: No directory specified');
@@ -56,20 +187,83 @@ async function main(): Promise<void> {
       return;
     }
     
-    console.log(`Parsing directory: ${options.directory}`);
+    if (options.watch && options.rev) {
+      console.error('Error: --watch cannot be combined with --rev');
+      process.exit(1);
+      return;
+    }
     
-    const functions = await parseDirectory(options);
+    if (options.since && (options.rev || options.watch || options.command)) {
+      console.error('Error: --since cannot be combined with --rev, --watch or api-report');
+      process.exit(1);
+      return;
+    }
     
-    console.log(`Found ${functions.length} function declarations`);
+    if (options.since && options.format !== 'json' && options.format !== 'ndjson' && options.format !== 'text') {
+      console.error('Error: --since supports the json, ndjson and text formats');
+      process.exit(1);
+      return;
+    }
+    
+    // Status messages go to stderr so stdout only carries the results
+    console.error(`Parsing directory: ${options.directory}${options.rev ? ` at ${options.rev}` : ''}`);
+    
+    if (options.command === 'api-report') {
+      await runApiReport(options);
+      return;
+    }
     
-    const jsonOutput = JSON.stringify(functions, null, 2);
+    if (options.watch) {
+      const watcher = await watchDirectory(options, (changes) => {
+        for (const change of changes) {
+          console.log(formatChange(change));
+        }
+      });
+      console.error(`Watching ${watcher.initial.length} files for changes (press Ctrl+C to stop)`);
+      
+      process.on('SIGINT', () => {
+        watcher.close();
+        process.exit(0);
+      });
+      return;
+    }
+    
+    if (options.format === 'dts') {
+      writeDeclarationFiles(options, await parseDirectory(options));
+      return;
+    }
+    
+    if (options.format === 'ndjson' && !options.since) {
+      await writeDeclarationStream(options);
+      return;
+    }
+    
+    let output: string;
+    
+    if (options.since) {
+      const changes = await diffSinceRevision(options, options.since);
+      console.error(`Found ${changes.length} declaration changes since ${options.since}`);
+      output = options.format === 'text'
+        ? changes.map(change => formatChange(change) + '\n').join('')
+        : options.format === 'ndjson'
+          ? changes.map(change => JSON.stringify(change) + '\n').join('')
+          : JSON.stringify(changes, null, 2) + '\n';
+    } else {
+      const startedAt = new Date();
+      const fileDeclarations = await parseDirectory(options);
+      console.error(`Parsed ${fileDeclarations.length} files`);
+      output = options.format === 'markdown'
+        ? formatMarkdown(fileDeclarations)
+        : options.format === 'text'
+          ? formatText(fileDeclarations)
+          : JSON.stringify(buildOutputEnvelope(fileDeclarations, options, startedAt), null, 2) + '\n';
+    }
     
     if (options.outputFile) {
-      fs.writeFileSync(options.outputFile, jsonOutput);
-      console.log(`Results written to ${options.outputFile}`);
+      fs.writeFileSync(options.outputFile, output);
+      console.error(`Results written to ${options.outputFile}`);
     } else {
-      console.log('Results:');
-      console.log(jsonOutput);
+      process.stdout.write(output);
     }
   } catch (error) {
     console.error('Error:', error);
@@ -77,6 +271,104 @@ async function main(): Promise<void> {
   }
 }
 
+// Write one JSON line per file as soon as it is parsed, so the results are never all held in memory
+async function writeDeclarationStream(options: CliOptions): Promise<void> {
+  const output = options.outputFile ? fs.createWriteStream(options.outputFile) : process.stdout;
+  const write = (chunk: string) => new Promise<void>((resolve, reject) => {
+    // Wait for the stream to drain when it is backed up, rather than buffering everything
+    if (output.write(chunk)) {
+      resolve();
+      return;
+    }
+    const onError = (error: Error) => {
+      output.off('drain', onDrain);
+      reject(error);
+    };
+    const onDrain = () => {
+      output.off('error', onError);
+      resolve();
+    };
+    output.once('drain', onDrain);
+    output.once('error', onError);
+  });
+  
+  let parsed = 0;
+  for await (const fileDeclaration of parseDirectoryStream(options)) {
+    try {
+      await write(JSON.stringify(fileDeclaration) + '\n');
+    } catch (error: any) {
+      // The reader went away (e.g. `| head`), so there is no point in parsing further
+      if (error && error.code === 'EPIPE') return;
+      throw error;
+    }
+    parsed++;
+  }
+  console.error(`Parsed ${parsed} files`);
+  
+  if (options.outputFile) {
+    await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => (error ? reject(error) : resolve())));
+    console.error(`Results written to ${options.outputFile}`);
+  }
+}
+
+// Write a declaration file per source file to the output directory, or all of them to stdout
+function writeDeclarationFiles(options: CliOptions, fileDeclarations: FileDeclaration[]): void {
+  let written = 0;
+  
+  for (const fileDecl of fileDeclarations) {
+    const declarations = renderDeclarationFile(fileDecl);
+    if (!declarations) continue;
+    
+    const declarationFile = getDeclarationFileName(path.relative(options.directory, fileDecl.fileName));
+    if (options.outputFile) {
+      const outputPath = path.join(options.outputFile, declarationFile);
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, declarations);
+    } else {
+      process.stdout.write(`// ${toPosixPath(declarationFile)}\n${declarations}\n`);
+    }
+    written++;
+  }
+  
+  console.error(`Generated ${written} declaration files${options.outputFile ? ` in ${options.outputFile}` : ''}`);
+}
+
+// Write the API report, or check the tree against the committed one
+async function runApiReport(options: CliOptions): Promise<void> {
+  const reportFile = options.reportFile || DEFAULT_REPORT_FILE;
+  const report = buildApiReport(await parseDirectory(options), options.directory);
+  
+  if (!options.check) {
+    fs.writeFileSync(reportFile, formatApiReport(report));
+    console.error(`API report with ${report.entries.length} entries written to ${reportFile}`);
+    return;
+  }
+  
+  if (!fs.existsSync(reportFile)) {
+    console.error(`Error: API report not found: ${reportFile}`);
+    process.exit(1);
+  }
+  
+  const committed: ApiReport = JSON.parse(fs.readFileSync(reportFile, 'utf8'));
+  const changes = compareApiReports(committed, report);
+  
+  for (const change of changes) {
+    console.log(`${change.severity === 'breaking' ? '!' : '+'} ${change.id}: ${change.description}`);
+  }
+  
+  const breaking = changes.filter(change => change.severity === 'breaking').length;
+  if (breaking > 0) {
+    console.error(`${breaking} breaking API change(s) found`);
+    process.exit(1);
+  }
+  
+  if (changes.length > 0) {
+    console.error(`${changes.length} additive API change(s) found; run 'funsig api-report' to update ${reportFile}`);
+  } else {
+    console.error('API report is up to date');
+  }
+}
+
 // Run the program
 main().catch(error => {
   console.error('Unhandled error:', error);
@@ -0,0 +1,214 @@
+import type { DocComment, DocParam, DocTypedDescription } from './types';
+
+/**
+ * Check whether a comment is a JSDoc/TSDoc block (starts with two asterisks)
+ * @param comment Raw comment text
+ */
+export function isDocComment(comment: string): boolean {
+  return comment.startsWith('/**') && !comment.startsWith('/***') && comment !== '/**/';
+}
+
+/**
+ * Parse a JSDoc/TSDoc block comment into a structured DocComment
+ * @param comment Raw comment text, including the comment delimiters
+ * @returns The parsed documentation, or undefined if the comment is not a doc block
+ */
+export function parseDocComment(comment: string | null): DocComment | undefined {
+  if (!comment || !isDocComment(comment)) return undefined;
+
+  const doc: DocComment = {
+    summary: '',
+    params: [],
+    typeParams: [],
+    throws: [],
+    examples: [],
+    see: [],
+    tags: []
+  };
+
+  const summaryLines: string[] = [];
+  for (const block of splitTagBlocks(stripCommentDelimiters(comment))) {
+    if (block.tag === null) {
+      summaryLines.push(...block.lines);
+      continue;
+    }
+
+    const text = block.lines.join('\n');
+
+    switch (block.tag) {
+      case 'param':
+      case 'arg':
+      case 'argument':
+        doc.params.push(parseParamTag(text));
+        break;
+      case 'template':
+        doc.typeParams.push(...parseTemplateTag(text));
+        break;
+      case 'returns':
+      case 'return':
+        doc.returns = parseTypedDescription(text);
+        break;
+      case 'throws':
+      case 'exception':
+        doc.throws.push(parseTypedDescription(text));
+        break;
+      case 'example':
+        doc.examples.push(trimBlankLines(block.lines).join('\n'));
+        break;
+      case 'deprecated':
+        doc.deprecated = { description: collapseDescription(text) };
+        break;
+      case 'since':
+        doc.since = collapseDescription(text);
+        break;
+      case 'see':
+        doc.see.push(collapseDescription(text));
+        break;
+      default:
+        doc.tags.push({ tag: block.tag, text: collapseDescription(text) });
+    }
+  }
+
+  doc.summary = trimBlankLines(summaryLines).map(line => line.trim()).join('\n');
+
+  return doc;
+}
+
+/**
+ * Remove the comment delimiters and the leading asterisk of each line
+ */
+function stripCommentDelimiters(comment: string): string[] {
+  return comment
+    .replace(/^\/\*\*/, '')
+    .replace(/\*\/$/, '')
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*\* ?/, ''));
+}
+
+/**
+ * Group comment lines into the leading summary block and one block per tag.
+ * Lines inside fenced code blocks never start a new tag, so examples may contain '@'.
+ */
+function splitTagBlocks(lines: string[]): { tag: string | null, lines: string[] }[] {
+  const blocks: { tag: string | null, lines: string[] }[] = [{ tag: null, lines: [] }];
+  let inFence = false;
+
+  for (const line of lines) {
+    const tagMatch = !inFence ? line.match(/^\s*@([\w-]+)\s?(.*)$/) : null;
+
+    if (tagMatch) {
+      blocks.push({ tag: tagMatch[1], lines: tagMatch[2] ? [tagMatch[2]] : [] });
+    } else {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+
+    if (line.trim().startsWith('```')) {
+      inFence = !inFence;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Read a leading `{type}` expression, honoring nested braces
+ * @returns The type text (without braces) and the remaining text
+ */
+function readType(text: string): { type?: string, rest: string } {
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith('{')) return { rest: trimmed };
+
+  let depth = 0;
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === '{') depth++;
+    else if (trimmed[i] === '}') depth--;
+
+    if (depth === 0) {
+      return { type: trimmed.substring(1, i).trim(), rest: trimmed.substring(i + 1).trimStart() };
+    }
+  }
+
+  // Unbalanced braces: treat everything as description
+  return { rest: trimmed };
+}
+
+/**
+ * Parse `@param {type} [name=default] - description`
+ */
+function parseParamTag(text: string): DocParam {
+  const { type, rest } = readType(text);
+  const param: DocParam = { name: '', description: '', optional: false };
+
+  if (type) {
+    param.type = type;
+    if (type.endsWith('=')) {
+      // Closure-style optional parameter: {string=}
+      param.type = type.slice(0, -1);
+      param.optional = true;
+    }
+  }
+
+  const bracketMatch = rest.match(/^\[([^\]=]+)(?:=([^\]]*))?\]\s*([\s\S]*)$/);
+  if (bracketMatch) {
+    param.name = bracketMatch[1].trim();
+    param.optional = true;
+    if (bracketMatch[2] !== undefined) {
+      param.defaultValue = bracketMatch[2].trim();
+    }
+    param.description = collapseDescription(bracketMatch[3]);
+  } else {
+    const nameMatch = rest.match(/^(\S+)\s*([\s\S]*)$/);
+    if (nameMatch) {
+      param.name = nameMatch[1];
+      param.description = collapseDescription(nameMatch[2]);
+    }
+  }
+
+  return param;
+}
+
+/**
+ * Parse `@template {Constraint} T, U - description`
+ */
+function parseTemplateTag(text: string): DocParam[] {
+  const { type, rest } = readType(text);
+  const match = rest.match(/^([\w$]+(?:\s*,\s*[\w$]+)*)\s*([\s\S]*)$/);
+  if (!match) return [];
+
+  const description = collapseDescription(match[2]);
+  return match[1].split(',').map(name => ({
+    name: name.trim(),
+    description,
+    optional: false,
+    ...(type ? { type } : {})
+  }));
+}
+
+/**
+ * Parse `@returns {type} description` and `@throws {type} description`
+ */
+function parseTypedDescription(text: string): DocTypedDescription {
+  const { type, rest } = readType(text);
+  return {
+    ...(type ? { type } : {}),
+    description: collapseDescription(rest)
+  };
+}
+
+/**
+ * Join a multi-line tag description into a single line, dropping a leading '-' separator
+ */
+function collapseDescription(text: string): string {
+  return text.replace(/^\s*-\s+/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Remove blank lines from the start and end of a block
+ */
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
@@ -0,0 +1,203 @@
+import path from 'path';
+import type { FileDeclaration, SourceRange } from './types';
+import { extractPythonDeclarations } from './python';
+import { extractGoDeclarations } from './go';
+import { extractRustDeclarations } from './rust';
+
+/**
+ * What an adapter's extractor is given besides the syntax tree
+ */
+export interface ExtractionContext {
+  /** Path to the source file */
+  filePath: string;
+  /** Content of the source file */
+  fileContent: string;
+  /** Gets the source range of a node */
+  getRange(node: any): SourceRange;
+}
+
+/**
+ * Teaches the parser a language: which files belong to it, the tree-sitter grammar to parse
+ * them with, and how to turn their syntax trees into declarations
+ */
+export interface LanguageAdapter {
+  /** Language name, e.g. `python`. Registering an adapter with the name of another replaces it. */
+  name: string;
+  /** File extensions with their leading dot, e.g. `['.py', '.pyi']` */
+  extensions: string[];
+  /** Tree-sitter grammar: the name of the module exporting it, or a function that loads it */
+  grammar: string | (() => unknown);
+  /**
+   * Extract the declarations of a file from its syntax tree. Ids can be left empty; they are
+   * assigned afterwards. Without an extractor, the built-in JavaScript and TypeScript rules apply.
+   */
+  extract?(rootNode: any, context: ExtractionContext): Omit<FileDeclaration, 'fileName'>;
+}
+
+const adaptersByName = new Map<string, LanguageAdapter>();
+const adaptersByExtension = new Map<string, LanguageAdapter>();
+
+// Modules adapters were loaded from, so worker threads can load them too
+const adapterModules: string[] = [];
+// Names of adapters registered directly, which worker threads cannot set up
+const inlineAdapters = new Set<string>();
+
+/**
+ * Register a language adapter. Its extensions are taken over from any adapter registered before.
+ * Adapters registered this way only apply to the current thread; while any is registered,
+ * directories are parsed on the main thread. To parse on worker threads, load the adapter
+ * from a module with `loadLanguageModule` instead.
+ * @param adapter Adapter to register
+ */
+export function registerLanguage(adapter: LanguageAdapter): void {
+  addAdapter(adapter);
+  inlineAdapters.add(adapter.name);
+}
+
+/**
+ * Drop every adapter registered or loaded from a module and go back to the built-in languages
+ */
+export function resetLanguages(): void {
+  adaptersByName.clear();
+  adaptersByExtension.clear();
+  adapterModules.length = 0;
+  inlineAdapters.clear();
+  for (const adapter of BUILT_IN_ADAPTERS) {
+    addAdapter(adapter);
+  }
+}
+
+function addAdapter(adapter: LanguageAdapter): void {
+  const previous = adaptersByName.get(adapter.name);
+  if (previous) {
+    for (const extension of previous.extensions) {
+      if (adaptersByExtension.get(extension.toLowerCase()) === previous) {
+        adaptersByExtension.delete(extension.toLowerCase());
+      }
+    }
+  }
+
+  adaptersByName.set(adapter.name, adapter);
+  for (const extension of adapter.extensions) {
+    adaptersByExtension.set(extension.toLowerCase(), adapter);
+  }
+}
+
+/**
+ * Load and register the language adapters a module exports, as its default export or as the
+ * module itself: a single adapter or an array of them
+ * @param modulePath Absolute path or package name of the module
+ * @returns The registered adapters
+ * @throws If the module cannot be loaded or does not export valid adapters
+ */
+export function loadLanguageModule(modulePath: string): LanguageAdapter[] {
+  const loaded = require(modulePath);
+  const exported = loaded && loaded.default !== undefined ? loaded.default : loaded;
+  const adapters: unknown[] = Array.isArray(exported) ? exported : [exported];
+
+  for (const adapter of adapters) {
+    const problem = validateAdapter(adapter);
+    if (problem) {
+      throw new Error(`Invalid language adapter in ${modulePath}: ${problem}`);
+    }
+  }
+
+  for (const adapter of adapters as LanguageAdapter[]) {
+    addAdapter(adapter);
+    inlineAdapters.delete(adapter.name);
+  }
+  if (!adapterModules.includes(modulePath)) {
+    adapterModules.push(modulePath);
+  }
+  return adapters as LanguageAdapter[];
+}
+
+/**
+ * Describe what is wrong with a value that should be an adapter, or return undefined if nothing is
+ */
+function validateAdapter(adapter: any): string | undefined {
+  if (!adapter || typeof adapter !== 'object') return 'expected an object';
+  if (typeof adapter.name !== 'string' || !adapter.name) return 'name must be a non-empty string';
+  if (!Array.isArray(adapter.extensions) || !adapter.extensions.every((extension: unknown) => typeof extension === 'string' && extension.startsWith('.'))) {
+    return `extensions of ${adapter.name} must be an array of extensions starting with a dot`;
+  }
+  if (typeof adapter.grammar !== 'string' && typeof adapter.grammar !== 'function') {
+    return `grammar of ${adapter.name} must be a module name or a function`;
+  }
+  if (adapter.extract !== undefined && typeof adapter.extract !== 'function') {
+    return `extract of ${adapter.name} must be a function`;
+  }
+  return undefined;
+}
+
+/**
+ * Get the adapter for a file from its extension
+ * @param filePath Path to the file
+ */
+export function getLanguageAdapter(filePath: string): LanguageAdapter | undefined {
+  return adaptersByExtension.get(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Get a registered adapter by language name
+ * @param name Language name
+ */
+export function getLanguageAdapterByName(name: string): LanguageAdapter | undefined {
+  return adaptersByName.get(name);
+}
+
+/**
+ * Get the modules adapters were loaded from, in load order
+ */
+export function getLanguageModules(): string[] {
+  return [...adapterModules];
+}
+
+/**
+ * Get the names of adapters registered directly rather than loaded from a module
+ */
+export function getInlineAdapters(): string[] {
+  return [...inlineAdapters];
+}
+
+/**
+ * Check whether every adapter can be set up again on a worker thread, which is not the case
+ * for adapters registered directly rather than loaded from a module
+ */
+export function canLoadAdaptersInWorkers(): boolean {
+  return inlineAdapters.size === 0;
+}
+
+// Built-in languages. Those without an extractor of their own go through the JavaScript rules,
+// and their grammars are not installed by default.
+const BUILT_IN_ADAPTERS: LanguageAdapter[] = [
+  { name: 'javascript', extensions: ['.js', '.jsx'], grammar: 'tree-sitter-javascript' },
+  { name: 'typescript', extensions: ['.ts'], grammar: () => require('tree-sitter-typescript').typescript },
+  { name: 'tsx', extensions: ['.tsx'], grammar: () => require('tree-sitter-typescript').tsx },
+  {
+    name: 'python',
+    extensions: ['.py'],
+    grammar: 'tree-sitter-python',
+    extract: (rootNode, { getRange }) => extractPythonDeclarations(rootNode, getRange)
+  },
+  {
+    name: 'go',
+    extensions: ['.go'],
+    grammar: 'tree-sitter-go',
+    extract: (rootNode, { getRange }) => extractGoDeclarations(rootNode, getRange)
+  },
+  {
+    name: 'rust',
+    extensions: ['.rs'],
+    grammar: 'tree-sitter-rust',
+    extract: (rootNode, { getRange }) => extractRustDeclarations(rootNode, getRange)
+  },
+  { name: 'ruby', extensions: ['.rb'], grammar: 'tree-sitter-ruby' },
+  { name: 'java', extensions: ['.java'], grammar: 'tree-sitter-java' },
+  { name: 'c', extensions: ['.c', '.h'], grammar: 'tree-sitter-c' },
+  { name: 'cpp', extensions: ['.cpp', '.hpp', '.cc'], grammar: 'tree-sitter-cpp' },
+  { name: 'c_sharp', extensions: ['.cs'], grammar: 'tree-sitter-c-sharp' },
+  { name: 'php', extensions: ['.php'], grammar: 'tree-sitter-php' }
+];
+
+resetLanguages();
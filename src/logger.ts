@@ -0,0 +1,19 @@
+import type { Logger } from './types';
+
+/**
+ * Logs to the console. Informational messages go to stderr too, so stdout only carries results.
+ */
+export const consoleLogger: Logger = {
+  info: (message, ...args) => console.error(message, ...args),
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args)
+};
+
+/**
+ * Discards all messages
+ */
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
@@ -0,0 +1,53 @@
+import { VERSION } from './version';
+import type { FileDeclaration, OutputEnvelope, OutputOptions, ParserOptions } from './types';
+
+/**
+ * Current format version of the JSON output. Bump it whenever OutputEnvelope or the
+ * declaration types change, and regenerate the schema with `bun run schema`.
+ */
+export const OUTPUT_SCHEMA_VERSION = 7;
+
+/**
+ * Wrap parse results in the versioned output envelope
+ * @param fileDeclarations Parse results
+ * @param options Options the directory was parsed with
+ * @param startedAt When parsing started
+ * @param finishedAt When parsing finished (default: now)
+ */
+export function buildOutputEnvelope(
+  fileDeclarations: FileDeclaration[],
+  options: ParserOptions,
+  startedAt: Date,
+  finishedAt: Date = new Date()
+): OutputEnvelope {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    toolVersion: VERSION,
+    rootDirectory: options.directory,
+    options: pickOutputOptions(options),
+    fileCount: fileDeclarations.length,
+    startedAt: startedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    errors: fileDeclarations
+      .filter(fileDecl => fileDecl.error !== undefined)
+      .map(fileDecl => ({ fileName: fileDecl.fileName, message: fileDecl.error! })),
+    files: fileDeclarations
+  };
+}
+
+/**
+ * Copy the parser options that are recorded, leaving out anything else the caller added to them
+ */
+function pickOutputOptions(options: ParserOptions): OutputOptions {
+  return {
+    fileExtensions: options.fileExtensions,
+    include: options.include,
+    exclude: options.exclude,
+    useIgnoreFiles: options.useIgnoreFiles,
+    followSymlinks: options.followSymlinks,
+    maxFileSize: options.maxFileSize,
+    includeMinified: options.includeMinified,
+    cacheDir: options.cacheDir,
+    rev: options.rev
+  };
+}
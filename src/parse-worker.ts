@@ -0,0 +1,30 @@
+import { parentPort, workerData } from 'worker_threads';
+import { format } from 'util';
+import { CodeParser } from './parser';
+import { DeclarationCache } from './cache';
+import { loadLanguageModule } from './languages';
+import type { Logger } from './types';
+import type { ParseTask, ParseResult, LogEntry } from './worker-pool';
+
+// Worker thread entry point: parses the files it is sent, one at a time, with its own tree-sitter parser.
+// Language adapters the calling thread loaded from modules are loaded here too.
+for (const modulePath of (workerData && workerData.languageModules) || []) {
+  loadLanguageModule(modulePath);
+}
+
+// Messages are sent back with each result, for the calling thread's logger
+let logs: LogEntry[] = [];
+const collect = (level: keyof Logger) => (message: string, ...args: unknown[]) => {
+  logs.push({ level, message: format(message, ...args) });
+};
+const logger: Logger = { info: collect('info'), warn: collect('warn'), error: collect('error') };
+
+const parser = new CodeParser(undefined, logger);
+const cache = workerData && workerData.cacheDir ? new DeclarationCache(workerData.cacheDir, logger) : undefined;
+
+parentPort!.on('message', async (task: ParseTask) => {
+  const declaration = await parser.parseFile(task.filePath, cache, task.fileContent);
+  const result: ParseResult = { index: task.index, declaration, logs };
+  logs = [];
+  parentPort!.postMessage(result);
+});
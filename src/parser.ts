@@ -1,27 +1,63 @@
-import fs from 'fs';
 import path from 'path';
 import Parser from "tree-sitter";
-import type { FunctionDeclaration, ClassDeclaration, FileDeclaration, ParserOptions, ParameterInfo } from './types';
+import type {
+  FunctionDeclaration,
+  ClassDeclaration,
+  InterfaceDeclaration,
+  InterfaceMember,
+  TypeAliasDeclaration,
+  EnumDeclaration,
+  EnumMember,
+  FileDeclaration,
+  FileFilterOptions,
+  ParserOptions,
+  ParameterInfo,
+  ExportInfo,
+  FunctionModifiers,
+  TypeParameterInfo,
+  SourceLocation,
+  SourceRange,
+  SourceOptions,
+  Logger
+} from './types';
+import { parseDocComment } from './jsdoc';
+import { getLanguageAdapter, getLanguageAdapterByName, canLoadAdaptersInWorkers } from './languages';
+import { formatSignature, normalizeType } from './signature';
+import { DeclarationCache } from './cache';
+import { streamFilesInWorkers } from './worker-pool';
+import { PathMatcher, DEFAULT_IGNORE_PATTERNS, loadIgnoreFiles, toPosixPath } from './ignore';
+import { FileSystemSource, GitRevisionSource } from './file-source';
+import { consoleLogger } from './logger';
+import type { FileSource } from './file-source';
 
-// For TypeScript
-let JavaScript: any;
-let TypeScript: any;
+// Files larger than this are skipped unless ParserOptions.maxFileSize says otherwise
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+// Minified-file detection reads this many bytes and flags an average line length above the threshold
+const MINIFIED_SAMPLE_SIZE = 16 * 1024;
+const MINIFIED_LINE_LENGTH = 500;
 
 /**
  * CodeParser class for extracting function signatures from code
  */
 export class CodeParser {
   private parser: Parser;
-  private idCounter: number;
+  private rootDirectory: string;
   private languageModules: Map<string, any>;
+  private fileSource: FileSource;
+  private logger: Logger;
 
   /**
    * Create a new CodeParser instance
+   * @param fileSource Where directories are listed and files are read from (default: the local file system)
+   * @param logger Where status messages, warnings and errors go (default: the console)
    */
-  constructor() {
+  constructor(fileSource: FileSource = new FileSystemSource(), logger: Logger = consoleLogger) {
     this.parser = new Parser();
-    this.idCounter = 1;
+    this.rootDirectory = '.';
     this.languageModules = new Map();
+    this.fileSource = fileSource;
+    this.logger = logger;
   }
 
   /**
@@ -29,35 +65,19 @@ export class CodeParser {
    * @param language Language name (e.g., 'javascript', 'typescript', etc.)
    */
   async initParser(language: string): Promise<void> {
-    try {
-      // Return if language is already loaded
-      if (this.languageModules.has(language)) {
-        this.parser.setLanguage(this.languageModules.get(language));
-        return;
-      }
+    // Return if language is already loaded
+    if (this.languageModules.has(language)) {
+      this.parser.setLanguage(this.languageModules.get(language));
+      return;
+    }
 
-      let languageModule;
+    const adapter = getLanguageAdapterByName(language);
+    if (!adapter) {
+      throw new Error(`Unsupported language: ${language}. No language adapter is registered for it.`);
+    }
 
-      // Special handling for TypeScript which has separate modules for TS and TSX
-      if (language === 'typescript') {
-        if (!TypeScript) {
-          TypeScript = require('tree-sitter-typescript').typescript;
-        }
-        languageModule = TypeScript;
-      } else if (language === 'tsx') {
-        if (!TypeScript) {
-          TypeScript = require('tree-sitter-typescript').tsx;
-        }
-        languageModule = TypeScript;
-      } else if (language === 'javascript') {
-        if (!JavaScript) {
-          JavaScript = require('tree-sitter-javascript');
-        }
-        languageModule = JavaScript;
-      } else {
-        // For other languages, try to load them directly
-        languageModule = require(`tree-sitter-${language}`);
-      }
+    try {
+      const languageModule = typeof adapter.grammar === 'string' ? require(adapter.grammar) : adapter.grammar();
 
       // Cache the language module for future use
       this.languageModules.set(language, languageModule);
@@ -66,160 +86,105 @@ export class CodeParser {
       this.parser.setLanguage(languageModule);
 
     } catch (error) {
-      console.error(`Failed to load language ${language}:`, error);
-      throw new Error(`Unsupported language: ${language}. Make sure the tree-sitter-${language} module is installed.`);
+      this.logger.error(`Failed to load language ${language}:`, error);
+      const grammar = typeof adapter.grammar === 'string' ? adapter.grammar : `tree-sitter-${language}`;
+      throw new Error(`Unsupported language: ${language}. Make sure the ${grammar} module is installed.`);
     }
   }
 
   /**
-   * Get the language for a file based on its extension
+   * Get the language for a file based on its extension, from the registered language adapters
    * @param filePath Path to the file
    */
   getLanguageForFile(filePath: string): string {
     const ext = path.extname(filePath).toLowerCase();
 
-    switch (ext) {
-      case '.js':
-        return 'javascript';
-      case '.ts':
-        return 'typescript';
-      case '.jsx':
-        return 'javascript';
-      case '.tsx':
-        return 'tsx';  // TypeScript with JSX
-      case '.py':
-        return 'python';
-      case '.rb':
-        return 'ruby';
-      case '.java':
-        return 'java';
-      case '.c':
-      case '.h':
-        return 'c';
-      case '.cpp':
-      case '.hpp':
-      case '.cc':
-        return 'cpp';
-      case '.cs':
-        return 'c_sharp';
-      case '.go':
-        return 'go';
-      case '.php':
-        return 'php';
-      case '.rs':
-        return 'rust';
-      case '.json':
-        // Skip JSON files or handle differently
-        console.warn(`Skipping JSON file: ${filePath}`);
-        return 'json'; // Not actually used but prevents the error
-      // Add more languages as needed
-      default:
-        console.warn(`Unsupported file extension: ${ext} for file ${filePath}, skipping...`);
-        return 'unknown';
+    const adapter = getLanguageAdapter(filePath);
+    if (!adapter && ext === '.json') {
+      // Skip JSON files or handle differently
+      this.logger.warn(`Skipping JSON file: ${filePath}`);
+      return 'json'; // Not actually used but prevents the error
     }
+    if (!adapter) {
+      this.logger.warn(`Unsupported file extension: ${ext} for file ${filePath}, skipping...`);
+      return 'unknown';
+    }
+    return adapter.name;
   }
 
   /**
-   * Extract function and class declarations from a syntax tree
+   * Create a FileDeclaration with no declarations, used for skipped or failed files
+   * @param filePath Path to the source file
+   */
+  private emptyFileDeclaration(filePath: string): FileDeclaration {
+    return { fileName: filePath, functions: [], classes: [], interfaces: [], typeAliases: [], enums: [] };
+  }
+
+  /**
+   * Extract function, class, interface, type alias and enum declarations from a syntax tree
    * @param tree The parsed syntax tree
    * @param filePath Path to the source file
    * @param fileContent Content of the source file
+   * @param language Language the tree was parsed as (default: from the file extension)
    */
   extractDeclarations(
     tree: any,
     filePath: string,
-    fileContent: string
-  ): { functions: FunctionDeclaration[], classes: ClassDeclaration[] } {
+    fileContent: string,
+    language?: string
+  ): Omit<FileDeclaration, 'fileName'> {
     const functions: FunctionDeclaration[] = [];
     const classes: ClassDeclaration[] = [];
+    const interfaces: InterfaceDeclaration[] = [];
+    const typeAliases: TypeAliasDeclaration[] = [];
+    const enums: EnumDeclaration[] = [];
+    
+    // Source ranges, with byte offsets converted from the string indices tree-sitter reports
+    const toByteOffset = this.createByteOffsetConverter(fileContent);
+    
+    // Languages can bring their own extractor; the rest of this method handles JavaScript and TypeScript
+    const adapter = language ? getLanguageAdapterByName(language) : getLanguageAdapter(filePath);
+    if (adapter && adapter.extract) {
+      const getRange = (node: any) => this.getSourceRange(node, toByteOffset);
+      return this.assignIds(filePath, adapter.extract(tree.rootNode, { filePath, fileContent, getRange }));
+    }
     
     // Helper function to get line number (1-based)
     const getLineNumber = (pos: number): number => {
       return fileContent.substring(0, pos).split('\n').length;
     };
     
+    const getSourceLocation = (node: any): SourceLocation => {
+      const nameNode = this.getNameNode(node);
+      const bodyNode = this.getBodyNode(node);
+      // `const f = () => {}` covers the whole statement when it declares a single variable
+      const declarationNode = node.type === 'variable_declarator' && node.parent && node.parent.namedChildCount === 1
+        ? node.parent
+        : node;
+      return {
+        range: this.getSourceRange(declarationNode, toByteOffset),
+        nameRange: nameNode ? this.getSourceRange(nameNode, toByteOffset) : undefined,
+        bodyRange: bodyNode ? this.getSourceRange(bodyNode, toByteOffset) : undefined
+      };
+    };
+    
     // Build a map of comments for faster lookups
     const commentMap = this.buildCommentMap(tree.rootNode, fileContent);
     
-    // Check if this is a TypeScript file by extension
-    const isTypeScript = filePath.endsWith('.ts') || filePath.endsWith('.tsx');
-    
-    // If it's TypeScript, try to extract type information directly from the source code
-    const typeInfo: { [key: string]: { params: { [name: string]: string }, returnType: string } } = {};
+    // Module-scope declarations by name, and the export lists that refer to them.
+    // Export lists can appear anywhere in the file, so they are resolved after traversal.
+    const moduleScope = new Map<string, ExportInfo[]>();
+    const exportSpecifiers: { local: string, exported: string }[] = [];
     
-    if (isTypeScript) {
-      // Extract function declarations with types
-      const functionRegex = /function\s+(\w+)\s*(?:<[^>]*>)?\s*\(([^)]*)\)\s*:\s*([^{]+)/g;
-      let match;
-      
-      while ((match = functionRegex.exec(fileContent)) !== null) {
-        const funcName = match[1];
-        const paramsStr = match[2];
-        const returnType = match[3].trim();
-        
-        // Extract parameters and their types
-        const params: { [name: string]: string } = {};
-        paramsStr.split(',').forEach(param => {
-          const parts = param.trim().split(':');
-          if (parts.length >= 2) {
-            const paramName = parts[0].trim();
-            const paramType = parts[1].trim();
-            params[paramName] = paramType;
-          }
-        });
-        
-        typeInfo[funcName] = { params, returnType };
-      }
-      
-      // Extract arrow functions with types
-      const arrowRegex = /(?:const|let|var)\s+(\w+)\s*=\s*\(([^)]*)\)\s*:\s*([^=]+?)\s*=>/g;
-      
-      while ((match = arrowRegex.exec(fileContent)) !== null) {
-        const funcName = match[1];
-        const paramsStr = match[2];
-        const returnType = match[3].trim();
-        
-        // Extract parameters and their types
-        const params: { [name: string]: string } = {};
-        paramsStr.split(',').forEach(param => {
-          const parts = param.trim().split(':');
-          if (parts.length >= 2) {
-            const paramName = parts[0].trim();
-            const paramType = parts[1].trim();
-            params[paramName] = paramType;
-          }
-        });
-        
-        typeInfo[funcName] = { params, returnType };
-      }
-      
-      // Extract class methods with types
-      const classMethodRegex = /\b(public|private|protected)?\s*(\w+)\s*\(([^)]*)\)\s*:\s*([^{]+)/g;
-      
-      while ((match = classMethodRegex.exec(fileContent)) !== null) {
-        const methodName = match[2];
-        const paramsStr = match[3];
-        const returnType = match[4].trim();
-        
-        // Skip constructor since it doesn't conform to the pattern well
-        if (methodName === 'constructor') continue;
-        
-        // Extract parameters and their types
-        const params: { [name: string]: string } = {};
-        paramsStr.split(',').forEach(param => {
-          const parts = param.trim().split(':');
-          if (parts.length >= 2) {
-            const paramName = parts[0].trim();
-            const paramType = parts[1].trim();
-            params[paramName] = paramType;
-          }
-        });
-        
-        typeInfo[methodName] = { params, returnType };
-      }
-    }
+    const registerModuleScope = (name: string, node: any, declaration: ExportInfo) => {
+      if (!this.isModuleScope(node)) return;
+      const declarations = moduleScope.get(name) || [];
+      declarations.push(declaration);
+      moduleScope.set(name, declarations);
+    };
     
-    // Define visitors for different node types
+    // Define visitors for different node types.
+    // Ids are filled in by assignIds once the whole file has been visited.
     const visitors = {
       visitFunction: (node: any) => {
         const name = this.getNodeName(node, fileContent);
@@ -228,40 +193,26 @@ export class CodeParser {
           const jsDoc = this.findClosestComment(node, commentMap, fileContent);
           
           // Extract parameters and return type
-          let params = this.extractParameters(node, fileContent, jsDoc);
-          let returnType = this.extractReturnType(node, fileContent, jsDoc);
+          const typeParameters = this.extractTypeParameters(node);
+          const params = this.extractParameters(node, fileContent, jsDoc);
+          const returnType = this.extractReturnType(node, fileContent, jsDoc);
           
-          // For TypeScript, check if we have extracted type info for this function
-          if (isTypeScript && typeInfo[name]) {
-            // If we have TypeScript type information, use it to enhance the parameters
-            const funcTypeInfo = typeInfo[name];
-            
-            // Add type information to parameters
-            if (funcTypeInfo.params) {
-              params = params.map(param => {
-                if (param.name && funcTypeInfo.params[param.name]) {
-                  return {
-                    ...param,
-                    type: funcTypeInfo.params[param.name]
-                  };
-                }
-                return param;
-              });
-            }
-            
-            // Add return type information
-            if (funcTypeInfo.returnType && (!returnType || returnType === '')) {
-              returnType = funcTypeInfo.returnType;
-            }
-          }
-          
-          functions.push({
-            id: this.idCounter++,
+          const declaration: FunctionDeclaration = {
+            id: '',
             functionName: name,
-            lineNo: getLineNumber(node.startPosition),
+            lineNo: getLineNumber(node.startIndex),
+            typeParameters,
             parameters: params,
-            returnType: returnType
-          });
+            returnType: returnType,
+            signature: formatSignature(name, { typeParameters, parameters: params, returnType }),
+            ...(node.type === 'type_alias_declaration' ? { typeAlias: true } : {}),
+            doc: parseDocComment(jsDoc),
+            ...getSourceLocation(node),
+            ...this.getFunctionModifiers(node),
+            ...this.getExportInfo(node)
+          };
+          functions.push(declaration);
+          registerModuleScope(name, node, declaration);
         }
       },
       
@@ -280,88 +231,53 @@ export class CodeParser {
               
               if (!child) continue;
               
-              if (child.type === 'method_definition') {
+              if (child.type === 'method_definition' || child.type === 'abstract_method_signature') {
                 // Class method
                 const methodName = this.getNodeName(child, fileContent);
                 if (methodName) {
                   const methodJsDoc = this.findClosestComment(child, commentMap, fileContent);
-                  let params = this.extractParameters(child, fileContent, methodJsDoc);
-                  let returnType = this.extractReturnType(child, fileContent, methodJsDoc);
-                  
-                  // For TypeScript, check if we have extracted type info for this method
-                  if (isTypeScript && typeInfo[methodName]) {
-                    // If we have TypeScript type information, use it to enhance the parameters
-                    const methodTypeInfo = typeInfo[methodName];
-                    
-                    // Add type information to parameters
-                    if (methodTypeInfo.params) {
-                      params = params.map(param => {
-                        if (param.name && methodTypeInfo.params[param.name]) {
-                          return {
-                            ...param,
-                            type: methodTypeInfo.params[param.name]
-                          };
-                        }
-                        return param;
-                      });
-                    }
-                    
-                    // Add return type information
-                    if (methodTypeInfo.returnType && (!returnType || returnType === '')) {
-                      returnType = methodTypeInfo.returnType;
-                    }
-                  }
+                  const typeParameters = this.extractTypeParameters(child);
+                  const params = this.extractParameters(child, fileContent, methodJsDoc);
+                  const returnType = this.extractReturnType(child, fileContent, methodJsDoc);
                   
                   classMethods.push({
-                    id: this.idCounter++,
+                    id: '',
                     functionName: methodName,
-                    lineNo: getLineNumber(child.startPosition),
+                    lineNo: getLineNumber(child.startIndex),
+                    typeParameters,
                     parameters: params,
-                    returnType: returnType
+                    returnType: returnType,
+                    signature: formatSignature(methodName, { typeParameters, parameters: params, returnType }),
+                    doc: parseDocComment(methodJsDoc),
+                    ...getSourceLocation(child),
+                    ...this.getFunctionModifiers(child),
+                    ...this.getExportInfo(child)
                   });
                 }
               } 
-              else if (child.type === 'property_definition' && child.childForFieldName('value')) {
+              else if ((child.type === 'public_field_definition' || child.type === 'field_definition') && child.childForFieldName('value')) {
                 // Class property with method assignment (arrow function)
                 const propName = this.getNodeName(child, fileContent);
                 const valueNode = child.childForFieldName('value');
                 
-                if (propName && valueNode && 
-                    (valueNode.type === 'arrow_function' || valueNode.type === 'function')) {
+                if (propName && valueNode && this.isFunctionValue(valueNode)) {
                   const methodJsDoc = this.findClosestComment(child, commentMap, fileContent);
-                  let params = this.extractParameters(valueNode, fileContent, methodJsDoc);
-                  let returnType = this.extractReturnType(valueNode, fileContent, methodJsDoc);
-                  
-                  // For TypeScript, check if we have extracted type info for this property method
-                  if (isTypeScript && typeInfo[propName]) {
-                    // If we have TypeScript type information, use it to enhance the parameters
-                    const propTypeInfo = typeInfo[propName];
-                    
-                    // Add type information to parameters
-                    if (propTypeInfo.params) {
-                      params = params.map(param => {
-                        if (param.name && propTypeInfo.params[param.name]) {
-                          return {
-                            ...param,
-                            type: propTypeInfo.params[param.name]
-                          };
-                        }
-                        return param;
-                      });
-                    }
-                    
-                    // Add return type information
-                    if (propTypeInfo.returnType && (!returnType || returnType === '')) {
-                      returnType = propTypeInfo.returnType;
-                    }
-                  }
+                  const typeParameters = this.extractTypeParameters(child);
+                  const params = this.extractParameters(valueNode, fileContent, methodJsDoc);
+                  const returnType = this.extractReturnType(valueNode, fileContent, methodJsDoc);
                   
                   classMethods.push({
-                    id: this.idCounter++,
+                    id: '',
                     functionName: propName,
-                    lineNo: getLineNumber(child.startPosition),
+                    lineNo: getLineNumber(child.startIndex),
+                    typeParameters,
                     parameters: params,
-                    returnType: returnType
+                    returnType: returnType,
+                    signature: formatSignature(propName, { typeParameters, parameters: params, returnType }),
+                    doc: parseDocComment(methodJsDoc),
+                    ...getSourceLocation(child),
+                    ...this.getFunctionModifiers(child),
+                    ...this.getExportInfo(child)
                   });
                 }
               }
@@ -373,87 +289,434 @@ export class CodeParser {
                 if (memberName && typeNode && 
                     (typeNode.type === 'function_type' || child.type === 'method_signature')) {
                   const methodJsDoc = this.findClosestComment(child, commentMap, fileContent);
-                  let params = this.extractParameters(child, fileContent, methodJsDoc);
-                  let returnType = this.extractReturnType(child, fileContent, methodJsDoc);
-                  
-                  // For TypeScript, check if we have extracted type info for this interface method
-                  if (isTypeScript && typeInfo[memberName]) {
-                    // If we have TypeScript type information, use it to enhance the parameters
-                    const memberTypeInfo = typeInfo[memberName];
-                    
-                    // Add type information to parameters
-                    if (memberTypeInfo.params) {
-                      params = params.map(param => {
-                        if (param.name && memberTypeInfo.params[param.name]) {
-                          return {
-                            ...param,
-                            type: memberTypeInfo.params[param.name]
-                          };
-                        }
-                        return param;
-                      });
-                    }
-                    
-                    // Add return type information
-                    if (memberTypeInfo.returnType && (!returnType || returnType === '')) {
-                      returnType = memberTypeInfo.returnType;
-                    }
-                  }
+                  const typeParameters = this.extractTypeParameters(child);
+                  const params = this.extractParameters(child, fileContent, methodJsDoc);
+                  const returnType = this.extractReturnType(child, fileContent, methodJsDoc);
                   
                   classMethods.push({
-                    id: this.idCounter++,
+                    id: '',
                     functionName: memberName,
-                    lineNo: getLineNumber(child.startPosition),
+                    lineNo: getLineNumber(child.startIndex),
+                    typeParameters,
                     parameters: params,
-                    returnType: returnType
+                    returnType: returnType,
+                    signature: formatSignature(memberName, { typeParameters, parameters: params, returnType }),
+                    doc: parseDocComment(methodJsDoc),
+                    ...getSourceLocation(child),
+                    ...this.getFunctionModifiers(child),
+                    ...this.getExportInfo(child)
                   });
                 }
               }
             }
           }
           
-          classes.push({
-            id: this.idCounter++,
+          const declaration: ClassDeclaration = {
+            id: '',
             className,
-            lineNo: getLineNumber(node.startPosition),
+            lineNo: getLineNumber(node.startIndex),
+            typeParameters: this.extractTypeParameters(node),
             signature: classSignature,
-            methods: classMethods
-          });
+            abstract: node.type === 'abstract_class_declaration',
+            methods: classMethods,
+            doc: parseDocComment(jsDoc),
+            ...getSourceLocation(node),
+            ...this.getExportInfo(node)
+          };
+          classes.push(declaration);
+          registerModuleScope(className, node, declaration);
+        }
+      },
+
+      visitInterface: (node: any) => {
+        const interfaceName = this.getNodeName(node, fileContent);
+        if (interfaceName) {
+          const body = node.childForFieldName('body');
+          const jsDoc = this.findClosestComment(node, commentMap, fileContent);
+          const declaration: InterfaceDeclaration = {
+            id: '',
+            interfaceName,
+            lineNo: getLineNumber(node.startIndex),
+            typeParameters: this.extractTypeParameters(node),
+            ...this.getInterfaceHeritage(node),
+            members: body ? this.extractInterfaceMembers(body, fileContent, commentMap) : [],
+            doc: parseDocComment(jsDoc),
+            ...getSourceLocation(node),
+            ...this.getExportInfo(node)
+          };
+          interfaces.push(declaration);
+          registerModuleScope(interfaceName, node, declaration);
         }
+      },
+
+      visitTypeAlias: (node: any) => {
+        const aliasName = this.getNodeName(node, fileContent);
+        const valueNode = node.childForFieldName('value');
+        if (aliasName && valueNode) {
+          const jsDoc = this.findClosestComment(node, commentMap, fileContent);
+          const declaration: TypeAliasDeclaration = {
+            id: '',
+            aliasName,
+            lineNo: getLineNumber(node.startIndex),
+            typeParameters: this.extractTypeParameters(node),
+            type: valueNode.text,
+            doc: parseDocComment(jsDoc),
+            ...getSourceLocation(node),
+            ...this.getExportInfo(node)
+          };
+          typeAliases.push(declaration);
+          registerModuleScope(aliasName, node, declaration);
+        }
+      },
+
+      visitEnum: (node: any) => {
+        const enumName = this.getNodeName(node, fileContent);
+        if (enumName) {
+          const members: EnumMember[] = [];
+          const body = node.childForFieldName('body');
+          if (body) {
+            for (let i = 0; i < body.namedChildCount; i++) {
+              const child = body.namedChild(i);
+              if (!child) continue;
+
+              if (child.type === 'enum_assignment') {
+                // Member with initializer: Green = 'g'
+                const nameNode = child.childForFieldName('name');
+                const valueNode = child.childForFieldName('value');
+                if (nameNode) {
+                  members.push({ name: this.getEnumMemberName(nameNode), value: valueNode ? valueNode.text : undefined });
+                }
+              } else if (child.type === 'property_identifier' || child.type === 'string') {
+                // Plain member: Red
+                members.push({ name: this.getEnumMemberName(child) });
+              }
+            }
+          }
+
+          const jsDoc = this.findClosestComment(node, commentMap, fileContent);
+          const declaration: EnumDeclaration = {
+            id: '',
+            enumName,
+            lineNo: getLineNumber(node.startIndex),
+            members,
+            doc: parseDocComment(jsDoc),
+            ...getSourceLocation(node),
+            ...this.getExportInfo(node)
+          };
+          enums.push(declaration);
+          registerModuleScope(enumName, node, declaration);
+        }
+      },
+
+      visitExport: (node: any) => {
+        exportSpecifiers.push(...this.getExportSpecifiers(node));
       }
     };
     
     // Traverse the syntax tree with our visitors
     this.traverseTree(tree.rootNode, visitors, fileContent);
     
-    return { functions, classes };
+    // Resolve export lists back onto the declarations they name
+    for (const specifier of exportSpecifiers) {
+      for (const declaration of moduleScope.get(specifier.local) || []) {
+        declaration.exported = true;
+        declaration.reExported = true;
+        if (specifier.exported === 'default') {
+          declaration.defaultExport = true;
+        }
+      }
+    }
+    
+    return this.assignIds(filePath, { functions, classes, interfaces, typeAliases, enums });
+  }
+
+  /**
+   * Get the interfaces an interface extends, as written, omitting the field when there are none
+   */
+  private getInterfaceHeritage(node: any): { extends?: string[] } {
+    for (let i = 0; i < node.namedChildCount; i++) {
+      const child = node.namedChild(i);
+      if (child && child.type === 'extends_type_clause') {
+        return { extends: child.namedChildren.map((type: any) => type.text) };
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Extract property, method, call, construct and index signature members from an interface body
+   */
+  private extractInterfaceMembers(body: any, fileContent: string, commentMap: Map<number, string>): InterfaceMember[] {
+    const members: InterfaceMember[] = [];
+
+    for (let i = 0; i < body.namedChildCount; i++) {
+      const child = body.namedChild(i);
+      if (!child) continue;
+
+      const lineNo = child.startPosition.row + 1;
+
+      if (child.type === 'call_signature' || child.type === 'construct_signature') {
+        const jsDoc = this.findClosestComment(child, commentMap, fileContent);
+        const isConstruct = child.type === 'construct_signature';
+        members.push({
+          name: isConstruct ? 'new()' : '()',
+          kind: isConstruct ? 'construct' : 'call',
+          lineNo,
+          optional: false,
+          typeParameters: this.extractTypeParameters(child),
+          parameters: this.extractParameters(child, fileContent, jsDoc),
+          returnType: this.extractReturnType(child, fileContent, jsDoc),
+          doc: parseDocComment(jsDoc)
+        });
+        continue;
+      }
+
+      const nameNode = child.childForFieldName('name');
+      if (!nameNode) continue;
+
+      const optional = this.hasAnonymousChild(child, '?');
+      const readonly = this.hasAnonymousChild(child, 'readonly');
+
+      if (child.type === 'index_signature') {
+        const keyTypeNode = child.childForFieldName('index_type');
+        const typeNode = child.childForFieldName('type');
+        if (!keyTypeNode || !typeNode) continue;
+
+        const jsDoc = this.findClosestComment(child, commentMap, fileContent);
+        members.push({
+          name: `[${nameNode.text}: ${keyTypeNode.text}]`,
+          kind: 'index',
+          lineNo,
+          optional: false,
+          ...(readonly ? { readonly } : {}),
+          type: typeNode.text.replace(/^:\s*/, ''),
+          doc: parseDocComment(jsDoc)
+        });
+      } else if (child.type === 'method_signature') {
+        const jsDoc = this.findClosestComment(child, commentMap, fileContent);
+        members.push({
+          name: nameNode.text,
+          kind: 'method',
+          lineNo,
+          optional,
+          typeParameters: this.extractTypeParameters(child),
+          parameters: this.extractParameters(child, fileContent, jsDoc),
+          returnType: this.extractReturnType(child, fileContent, jsDoc),
+          doc: parseDocComment(jsDoc)
+        });
+      } else if (child.type === 'property_signature') {
+        const jsDoc = this.findClosestComment(child, commentMap, fileContent);
+        const typeNode = child.childForFieldName('type');
+        members.push({
+          name: nameNode.text,
+          kind: 'property',
+          lineNo,
+          optional,
+          ...(readonly ? { readonly } : {}),
+          type: typeNode ? typeNode.text.replace(/^:\s*/, '') : undefined,
+          doc: parseDocComment(jsDoc)
+        });
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Get the export status of a declaration from its enclosing export statement (if any)
+   */
+  private getExportInfo(node: any): ExportInfo {
+    // Variable declarators are wrapped in a lexical/variable declaration, and
+    // `declare` statements in an ambient declaration
+    let declarationNode = node.type === 'variable_declarator' ? node.parent : node;
+    if (declarationNode && declarationNode.parent && declarationNode.parent.type === 'ambient_declaration') {
+      declarationNode = declarationNode.parent;
+    }
+    const parent = declarationNode ? declarationNode.parent : null;
+
+    if (parent && parent.type === 'export_statement') {
+      return { exported: true, defaultExport: this.hasAnonymousChild(parent, 'default'), reExported: false };
+    }
+
+    return { exported: false, defaultExport: false, reExported: false };
+  }
+
+  /**
+   * Get the modifiers of a function, method or function-valued class field
+   */
+  private getFunctionModifiers(node: any): FunctionModifiers {
+    // Member tokens (static, get, readonly, ...) live on the declaration node, while
+    // async and * live on the function value for variable declarators and class fields
+    const isFieldLike = node.type === 'variable_declarator' ||
+      node.type === 'public_field_definition' ||
+      node.type === 'field_definition';
+    const functionNode = isFieldLike ? node.childForFieldName('value') : node;
+
+    const tokens = new Set<string>();
+    let accessibility: FunctionModifiers['accessibility'];
+    for (const current of [node, functionNode]) {
+      if (!current) continue;
+      for (let i = 0; i < current.childCount; i++) {
+        const child = current.child(i);
+        if (!child) continue;
+        if (child.type === 'accessibility_modifier') {
+          accessibility = child.text as FunctionModifiers['accessibility'];
+        } else if (!child.isNamed) {
+          tokens.add(child.type);
+        }
+      }
+    }
+
+    let kind: FunctionModifiers['kind'] = 'function';
+    if (node.parent && node.parent.type === 'class_body') {
+      const nameNode = node.childForFieldName('name');
+      if (nameNode && nameNode.text === 'constructor') {
+        kind = 'constructor';
+      } else if (tokens.has('get')) {
+        kind = 'getter';
+      } else if (tokens.has('set')) {
+        kind = 'setter';
+      } else {
+        kind = 'method';
+      }
+    }
+
+    return {
+      kind,
+      async: tokens.has('async'),
+      generator: tokens.has('*') || (!!functionNode && functionNode.type.startsWith('generator_function')),
+      static: tokens.has('static'),
+      abstract: tokens.has('abstract'),
+      readonly: tokens.has('readonly'),
+      ...(accessibility ? { accessibility } : {})
+    };
+  }
+
+  /**
+   * Check whether a node is a function value (arrow function or function expression)
+   */
+  private isFunctionValue(node: any): boolean {
+    return node.type === 'arrow_function' ||
+      node.type === 'function' ||
+      node.type === 'function_expression' ||
+      node.type === 'generator_function';
+  }
+
+  /**
+   * Check whether a declaration node is declared at module scope
+   */
+  private isModuleScope(node: any): boolean {
+    let parent = node.type === 'variable_declarator' && node.parent ? node.parent.parent : node.parent;
+    if (parent && parent.type === 'export_statement') {
+      parent = parent.parent;
+    }
+    return !!parent && parent.type === 'program';
+  }
+
+  /**
+   * Collect local-to-exported name pairs from an export list.
+   * Handles `export { a as b }`, `export default a` and CommonJS `module.exports`/`exports.x` assignments.
+   * Re-exports from other modules (`export { a } from './a'`) are ignored, since they name no local declaration.
+   */
+  private getExportSpecifiers(node: any): { local: string, exported: string }[] {
+    const specifiers: { local: string, exported: string }[] = [];
+
+    if (node.type === 'export_statement') {
+      if (node.childForFieldName('source')) return specifiers;
+
+      const valueNode = node.childForFieldName('value');
+      if (valueNode && valueNode.type === 'identifier') {
+        // export default name;
+        specifiers.push({ local: valueNode.text, exported: 'default' });
+      }
+
+      for (let i = 0; i < node.namedChildCount; i++) {
+        const clause = node.namedChild(i);
+        if (!clause || clause.type !== 'export_clause') continue;
+
+        for (let j = 0; j < clause.namedChildCount; j++) {
+          const specifier = clause.namedChild(j);
+          if (!specifier || specifier.type !== 'export_specifier') continue;
+
+          const nameNode = specifier.childForFieldName('name');
+          const aliasNode = specifier.childForFieldName('alias');
+          if (nameNode) {
+            specifiers.push({ local: nameNode.text, exported: aliasNode ? aliasNode.text : nameNode.text });
+          }
+        }
+      }
+    } else if (node.type === 'assignment_expression') {
+      const left = node.childForFieldName('left');
+      const right = node.childForFieldName('right');
+      if (!left || !right) return specifiers;
+
+      if (left.text === 'module.exports') {
+        if (right.type === 'identifier') {
+          // module.exports = name;
+          specifiers.push({ local: right.text, exported: 'default' });
+        } else if (right.type === 'object') {
+          // module.exports = { a, b: c };
+          for (let i = 0; i < right.namedChildCount; i++) {
+            const property = right.namedChild(i);
+            if (!property) continue;
+
+            if (property.type === 'shorthand_property_identifier') {
+              specifiers.push({ local: property.text, exported: property.text });
+            } else if (property.type === 'pair') {
+              const key = property.childForFieldName('key');
+              const value = property.childForFieldName('value');
+              if (key && value && value.type === 'identifier') {
+                specifiers.push({ local: value.text, exported: key.text });
+              }
+            }
+          }
+        }
+      } else if (left.type === 'member_expression' && right.type === 'identifier') {
+        // exports.name = local; module.exports.name = local;
+        const object = left.childForFieldName('object');
+        const property = left.childForFieldName('property');
+        if (object && property && (object.text === 'exports' || object.text === 'module.exports')) {
+          specifiers.push({ local: right.text, exported: property.text });
+        }
+      }
+    }
+
+    return specifiers;
+  }
+
+  /**
+   * Get the name of an enum member, stripping quotes from string keys
+   */
+  private getEnumMemberName(nameNode: any): string {
+    return nameNode.type === 'string' ? nameNode.text.slice(1, -1) : nameNode.text;
+  }
+
+  /**
+   * Check whether a node has an unnamed child token with the given text (e.g. '?')
+   */
+  private hasAnonymousChild(node: any, text: string): boolean {
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i);
+      if (child && !child.isNamed && child.type === text) {
+        return true;
+      }
+    }
+    return false;
   }
   
   /**
-   * Build a map of comments in the file for faster lookup
+   * Build a map of comments in the file for faster lookup, keyed by comment end offset
    */
   private buildCommentMap(rootNode: any, fileContent: string): Map<number, string> {
     const commentMap = new Map<number, string>();
     
-    // First, extract comments directly from the file content using regex
-    // This ensures we catch all comments, including JSDoc
-    const commentRegex = /\/\*\*[\s\S]*?\*\/|\/\/[^\n]*/g;
-    let match;
-    
-    while ((match = commentRegex.exec(fileContent)) !== null) {
-      const commentText = match[0];
-      const commentEnd = match.index + commentText.length;
-      commentMap.set(commentEnd, commentText);
-    }
-    
-    // Also process the AST to make sure we get all comments
     const processNode = (node: any) => {
       if (!node) return;
       
       // Check if this is a comment node
       if (node.type === 'comment' || node.type.includes('comment')) {
-        const commentText = fileContent.substring(node.startPosition, node.endPosition);
-        commentMap.set(node.endPosition, commentText);
+        const commentText = fileContent.substring(node.startIndex, node.endIndex);
+        commentMap.set(node.endIndex, commentText);
       }
       
       // Process children
@@ -467,31 +730,35 @@ export class CodeParser {
   }
   
   /**
-   * Find the closest comment before a node
+   * Find the comment directly preceding a node, separated from it only by whitespace
    */
   private findClosestComment(node: any, commentMap: Map<number, string>, fileContent: string): string | null {
-    if (!node || !node.startPosition) return null;
+    if (!node) return null;
     
-    // Get the line number for this node
-    const nodeLine = fileContent.substring(0, node.startPosition).split('\n').length;
+    // Comments document the whole statement: `export const fn = () => {}` is documented above `export`
+    let anchor = node;
+    if (anchor.type === 'variable_declarator' && anchor.parent) {
+      anchor = anchor.parent;
+    }
+    if (anchor.parent && anchor.parent.type === 'export_statement') {
+      anchor = anchor.parent;
+    }
     
     // Look for the closest comment ending before this node starts
-    let closestComment = null;
-    let closestDistance = Infinity;
+    let closestComment: string | null = null;
+    let closestEnd = -1;
     
     for (const [commentEnd, commentText] of commentMap.entries()) {
-      if (commentEnd < node.startPosition) {
-        const commentEndLine = fileContent.substring(0, commentEnd).split('\n').length;
-        const distance = nodeLine - commentEndLine;
-        
-        // Consider comments that are within 10 lines of the node
-        if (distance >= 0 && distance < 10 && distance < closestDistance) {
-          closestDistance = distance;
-          closestComment = commentText;
-        }
+      if (commentEnd <= anchor.startIndex && commentEnd > closestEnd) {
+        closestEnd = commentEnd;
+        closestComment = commentText;
       }
     }
     
+    if (closestComment === null || fileContent.substring(closestEnd, anchor.startIndex).trim() !== '') {
+      return null;
+    }
+    
     return closestComment;
   }
   
@@ -499,18 +766,36 @@ export class CodeParser {
    * Helper method to get the name of a node
    */
   private getNodeName(node: any, fileContent: string): string {
-    if (!node) return '';
+    const nameNode = this.getNameNode(node);
+    
+    if (nameNode && nameNode.text) {
+      return nameNode.text;
+    }
+    
+    return '';
+  }
+  
+  /**
+   * Find the name identifier node of a declaration node
+   */
+  private getNameNode(node: any): any {
+    if (!node) return null;
     
     let nameNode = null;
     
     switch (node.type) {
       case 'function_declaration':
+      case 'generator_function_declaration':
+      case 'function_signature':
       case 'class_declaration':
+      case 'abstract_class_declaration':
       case 'interface_declaration':
       case 'enum_declaration':
+      case 'type_alias_declaration':
         nameNode = node.childForFieldName('name');
         break;
       case 'method_definition':
+      case 'abstract_method_signature':
         // Handle TypeScript style methods with modifiers (public, private, protected)
         nameNode = node.childForFieldName('name');
         break;
@@ -518,16 +803,87 @@ export class CodeParser {
         nameNode = node.firstNamedChild;
         break;
       case 'property_signature':
-      case 'property_definition':
+      case 'public_field_definition':
         nameNode = node.childForFieldName('name');
         break;
+      case 'field_definition':
+        // JavaScript class fields use the 'property' field for their name
+        nameNode = node.childForFieldName('property');
+        break;
     }
     
-    if (nameNode && nameNode.text) {
-      return nameNode.text;
+    return nameNode;
+  }
+  
+  /**
+   * Find the body node of a declaration node: the function body (of the assigned function for
+   * variables and class fields), the class, interface or enum body, or the aliased type
+   */
+  private getBodyNode(node: any): any {
+    switch (node.type) {
+      case 'variable_declarator':
+      case 'public_field_definition':
+      case 'field_definition': {
+        const valueNode = node.childForFieldName('value');
+        return valueNode ? valueNode.childForFieldName('body') : null;
+      }
+      case 'type_alias_declaration':
+        return node.childForFieldName('value');
+      default:
+        return node.childForFieldName('body');
+    }
+  }
+  
+  /**
+   * Get the source range of a node
+   * @param node Syntax node
+   * @param toByteOffset Converts string indices of the file to UTF-8 byte offsets
+   */
+  private getSourceRange(node: any, toByteOffset: (index: number) => number): SourceRange {
+    return {
+      start: {
+        line: node.startPosition.row + 1,
+        column: node.startPosition.column,
+        offset: toByteOffset(node.startIndex)
+      },
+      end: {
+        line: node.endPosition.row + 1,
+        column: node.endPosition.column,
+        offset: toByteOffset(node.endIndex)
+      }
+    };
+  }
+  
+  /**
+   * Create a function that converts string indices of a file to UTF-8 byte offsets.
+   * Byte lengths are precomputed per line, so each conversion only measures part of one line.
+   * @param fileContent Content of the file
+   */
+  private createByteOffsetConverter(fileContent: string): (index: number) => number {
+    const lineStarts = [0];
+    const lineByteStarts = [0];
+    for (let i = 0; i < fileContent.length; i++) {
+      if (fileContent[i] === '\n') {
+        const lineStart = lineStarts[lineStarts.length - 1];
+        lineByteStarts.push(lineByteStarts[lineByteStarts.length - 1] + Buffer.byteLength(fileContent.substring(lineStart, i + 1)));
+        lineStarts.push(i + 1);
+      }
     }
     
-    return '';
+    return (index: number): number => {
+      // Binary search for the last line starting at or before the index
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= index) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return lineByteStarts[low] + Buffer.byteLength(fileContent.substring(lineStarts[low], index));
+    };
   }
   
   /**
@@ -541,19 +897,26 @@ export class CodeParser {
     
     switch (node.type) {
       case 'function_declaration':
+      case 'generator_function_declaration':
+      case 'function_signature':  // TypeScript overload or ambient function
       case 'method_definition':
+      case 'abstract_method_signature':  // TypeScript abstract method
       case 'method_signature':  // TypeScript interface method
+      case 'call_signature':  // TypeScript interface call signature
+      case 'construct_signature':  // TypeScript interface construct signature
         formalParams = node.childForFieldName('parameters');
         break;
       case 'variable_declarator':
         // For arrow functions, we need to look at the value node (the function itself)
         const valueNode = node.childForFieldName('value');
-        if (valueNode && (valueNode.type === 'arrow_function' || valueNode.type === 'function')) {
+        if (valueNode && this.isFunctionValue(valueNode)) {
           formalParams = valueNode.childForFieldName('parameters');
         }
         break;
       case 'arrow_function':
       case 'function':
+      case 'function_expression':
+      case 'generator_function':
       case 'function_type':  // TypeScript function type
         formalParams = node.childForFieldName('parameters');
         break;
@@ -564,6 +927,12 @@ export class CodeParser {
           formalParams = typeNode.childForFieldName('parameters');
         }
         break;
+      case 'type_alias_declaration':  // TypeScript function type alias
+        const aliasValueNode = node.childForFieldName('value');
+        if (aliasValueNode && aliasValueNode.type === 'function_type') {
+          formalParams = aliasValueNode.childForFieldName('parameters');
+        }
+        break;
     }
     
     if (!formalParams) return parameters;
@@ -579,6 +948,7 @@ export class CodeParser {
       let paramName = '';
       let paramType = '';
       let isOptional = false;
+      let defaultValue: string | undefined;
       
       // Helper function to extract type annotation text
       const extractTypeAnnotation = (typeNode: any): string => {
@@ -586,7 +956,7 @@ export class CodeParser {
         
         // For TypeScript, the type annotation often starts with a colon
         // We want to extract just the type, not the colon
-        let typeText = fileContent.substring(typeNode.startPosition, typeNode.endPosition).trim();
+        let typeText = fileContent.substring(typeNode.startIndex, typeNode.endIndex).trim();
         
         // If the type annotation starts with a colon, remove it
         if (typeText.startsWith(':')) {
@@ -612,9 +982,11 @@ export class CodeParser {
       else if (param.type === 'assignment_pattern') {
         // Parameter with default value: function(a = 1)
         const leftNode = param.childForFieldName('left');
+        const rightNode = param.childForFieldName('right');
         if (leftNode) {
           paramName = leftNode.text;
           isOptional = true;
+          defaultValue = rightNode ? rightNode.text : undefined;
           
           // Check for TypeScript type annotation
           if (leftNode.childForFieldName && leftNode.childForFieldName('type')) {
@@ -641,6 +1013,13 @@ export class CodeParser {
           }
         }
       }
+      else if (param.type === 'rest_pattern') {
+        // JavaScript rest parameter: function(...args)
+        const restNode = param.firstNamedChild;
+        if (restNode) {
+          paramName = '...' + restNode.text;
+        }
+      }
       else if (param.type === 'object_pattern') {
         // Destructured object parameter: function({a, b})
         paramName = "{" + param.text + "}";
@@ -658,6 +1037,13 @@ export class CodeParser {
           paramName = patternNode.text;
         }
         
+        // A default value makes the parameter optional: function(a: number = 1)
+        const valueNode = param.childForFieldName('value');
+        if (valueNode) {
+          isOptional = true;
+          defaultValue = valueNode.text;
+        }
+        
         // Get the type annotation
         const typeNode = param.childForFieldName('type');
         if (typeNode) {
@@ -698,16 +1084,36 @@ export class CodeParser {
         }
       }
       
-      // If we have a JSDoc type for this parameter, use it if TypeScript type is not present
-      if (paramName && paramTypesMap.has(paramName) && !paramType) {
-        paramType = paramTypesMap.get(paramName) || "";
+      // If we have a JSDoc type for this parameter, use it if TypeScript type is not present.
+      // Rest parameters are documented without their dots: @param {...number} args
+      const docName = paramName.replace(/^\.\.\./, '');
+      if (docName && paramTypesMap.has(docName) && !paramType) {
+        paramType = paramTypesMap.get(docName) || "";
+      }
+      
+      // Constructor parameter properties: constructor(private readonly name: string)
+      let accessibility: ParameterInfo['accessibility'];
+      let readonly = false;
+      if (param.type === 'required_parameter' || param.type === 'optional_parameter') {
+        for (let j = 0; j < param.childCount; j++) {
+          const child = param.child(j);
+          if (child.type === 'accessibility_modifier') {
+            accessibility = child.text as ParameterInfo['accessibility'];
+          } else if (child.type === 'readonly') {
+            readonly = true;
+          }
+        }
       }
       
       if (paramName) {
         parameters.push({
           name: paramName,
           type: paramType || "", // Ensure type is never undefined
-          optional: isOptional
+          optional: isOptional,
+          ...(defaultValue !== undefined ? { defaultValue } : {}),
+          ...(paramName.startsWith('...') ? { variadic: true } : {}),
+          ...(accessibility ? { accessibility } : {}),
+          ...(readonly ? { readonly } : {})
         });
       }
     }
@@ -715,24 +1121,63 @@ export class CodeParser {
     return parameters;
   }
   
+  /**
+   * Extract generic type parameters from a declaration node
+   */
+  private extractTypeParameters(node: any): TypeParameterInfo[] {
+    const typeParameters: TypeParameterInfo[] = [];
+
+    // Arrow functions, function expressions and function type aliases carry
+    // their type parameters on the function value rather than the declaration
+    let typeParamsNode = node.childForFieldName('type_parameters');
+    if (!typeParamsNode) {
+      const valueNode = node.childForFieldName('value');
+      if (valueNode && (this.isFunctionValue(valueNode) || valueNode.type === 'function_type')) {
+        typeParamsNode = valueNode.childForFieldName('type_parameters');
+      }
+    }
+
+    if (!typeParamsNode) return typeParameters;
+
+    for (let i = 0; i < typeParamsNode.namedChildCount; i++) {
+      const param = typeParamsNode.namedChild(i);
+      if (!param || param.type !== 'type_parameter') continue;
+
+      const nameNode = param.childForFieldName('name');
+      if (!nameNode) continue;
+
+      // Both the constraint and default nodes wrap the actual type after a keyword/'=' token
+      const constraintNode = param.childForFieldName('constraint');
+      const defaultNode = param.childForFieldName('value');
+      const constraint = constraintNode && constraintNode.firstNamedChild ? constraintNode.firstNamedChild.text : undefined;
+      const defaultType = defaultNode && defaultNode.firstNamedChild ? defaultNode.firstNamedChild.text : undefined;
+
+      typeParameters.push({
+        name: nameNode.text,
+        ...(constraint ? { constraint } : {}),
+        ...(defaultType ? { default: defaultType } : {})
+      });
+    }
+
+    return typeParameters;
+  }
+
   /**
    * Extract JSDoc parameter types from a comment
    */
   private extractJSDocParamTypes(jsDoc: string | null): Map<string, string> {
     const paramTypes = new Map<string, string>();
     
-    if (!jsDoc) return paramTypes;
-    
-    // Find all @param annotations
-    // Updated regex to work with JSDoc format variations
-    const paramRegex = /@param\s+(?:\{([^}]+)\})?\s*(\w+)(?:\s+-\s*(.+))?/g;
-    let match;
-    
-    while ((match = paramRegex.exec(jsDoc)) !== null) {
-      if (match.length >= 3) {
-        const type = match[1] ? match[1].trim() : '';
-        const name = match[2].trim();
-        paramTypes.set(name, type);
+    const doc = parseDocComment(jsDoc);
+    for (const param of doc ? doc.params : []) {
+      const type = param.type || '';
+      // A variadic type describes each rest argument: {...number} is number[]
+      if (type.startsWith('...')) {
+        const elementType = type.substring(3).trim();
+        const isSimple = /^[\w$.]+$/.test(elementType) || /^\([^()]*\)$/.test(elementType);
+        paramTypes.set(param.name, isSimple ? `${elementType}[]` : `(${elementType})[]`);
+      } else {
+        paramTypes.set(param.name, type);
       }
     }
     
@@ -767,7 +1212,7 @@ export class CodeParser {
                            node.childForFieldName('type');
       
       if (returnTypeNode) {
-        return cleanTypeAnnotation(fileContent.substring(returnTypeNode.startPosition, returnTypeNode.endPosition));
+        return cleanTypeAnnotation(fileContent.substring(returnTypeNode.startIndex, returnTypeNode.endIndex));
       }
       return undefined;
     };
@@ -777,21 +1222,28 @@ export class CodeParser {
     
     switch (node.type) {
       case 'function_declaration':
+      case 'generator_function_declaration':
+      case 'function_signature':
       case 'method_definition':
+      case 'abstract_method_signature':
       case 'method_signature':
+      case 'call_signature':
+      case 'construct_signature':
         returnType = extractTypeFromNode(node);
         break;
       case 'variable_declarator':
         // For arrow functions or function expressions, check the value node
         const valueNode = node.childForFieldName('value');
         if (valueNode) {
-          if (valueNode.type === 'arrow_function' || valueNode.type === 'function') {
+          if (this.isFunctionValue(valueNode)) {
             returnType = extractTypeFromNode(valueNode);
           }
         }
         break;
       case 'arrow_function':
       case 'function':
+      case 'function_expression':
+      case 'generator_function':
         returnType = extractTypeFromNode(node);
         break;
       case 'property_signature':
@@ -800,7 +1252,7 @@ export class CodeParser {
         if (typeNode && typeNode.type === 'function_type') {
           const fnReturnTypeNode = typeNode.childForFieldName('return_type');
           if (fnReturnTypeNode && fileContent) {
-            returnType = cleanTypeAnnotation(fileContent.substring(fnReturnTypeNode.startPosition, fnReturnTypeNode.endPosition));
+            returnType = cleanTypeAnnotation(fileContent.substring(fnReturnTypeNode.startIndex, fnReturnTypeNode.endIndex));
           }
         } else {
           returnType = extractTypeFromNode(node);
@@ -810,16 +1262,26 @@ export class CodeParser {
         // Direct function type (e.g., in type aliases or interfaces)
         const fnTypeReturnNode = node.childForFieldName('return_type');
         if (fnTypeReturnNode && fileContent) {
-          returnType = cleanTypeAnnotation(fileContent.substring(fnTypeReturnNode.startPosition, fnTypeReturnNode.endPosition));
+          returnType = cleanTypeAnnotation(fileContent.substring(fnTypeReturnNode.startIndex, fnTypeReturnNode.endIndex));
+        }
+        break;
+      case 'type_alias_declaration':
+        // Function type alias: the return type lives on the aliased function type
+        const aliasValueNode = node.childForFieldName('value');
+        const aliasReturnNode = aliasValueNode && aliasValueNode.type === 'function_type'
+          ? aliasValueNode.childForFieldName('return_type')
+          : null;
+        if (aliasReturnNode && fileContent) {
+          returnType = cleanTypeAnnotation(fileContent.substring(aliasReturnNode.startIndex, aliasReturnNode.endIndex));
         }
         break;
     }
     
     // If no explicit return type, check JSDoc for @returns
     if (!returnType && jsDoc) {
-      const returnMatch = jsDoc.match(/@returns?\s+{([^}]+)}/i);
-      if (returnMatch && returnMatch[1]) {
-        returnType = returnMatch[1].trim();
+      const doc = parseDocComment(jsDoc);
+      if (doc && doc.returns && doc.returns.type) {
+        returnType = doc.returns.type;
       }
     }
     
@@ -827,24 +1289,39 @@ export class CodeParser {
   }
   
   /**
-   * Helper method to get class signature
+   * Get the class header up to its body, e.g. `abstract class Repo<T> extends Base implements Store`,
+   * with decorators and comments left out and whitespace collapsed
    */
   private getClassSignature(node: any, fileContent: string): string {
-    if (!node || node.type !== 'class_declaration') return '';
-    
     const bodyNode = node.childForFieldName('body');
-    if (bodyNode) {
-      const startPos = node.startPosition;
-      const endPos = bodyNode.startPosition;
-      
-      try {
-        return fileContent.substring(startPos, endPos).trim();
-      } catch (e) {
-        return 'class ' + this.getNodeName(node, fileContent);
-      }
+    if (!bodyNode) return 'class ' + this.getNodeName(node, fileContent);
+    
+    // Decorators precede the class keyword and are not part of the signature
+    let startIndex = node.startIndex;
+    for (let i = 0; i < node.childCount && node.child(i).type === 'decorator'; i++) {
+      startIndex = node.child(i).endIndex;
     }
     
-    return 'class ' + this.getNodeName(node, fileContent);
+    // Cut out comments between the keyword and the body
+    let header = '';
+    let position = startIndex;
+    const collectComments = (current: any) => {
+      if (current.startIndex >= bodyNode.startIndex) return;
+      if (current.type === 'comment') {
+        if (current.startIndex >= position) {
+          header += fileContent.substring(position, current.startIndex) + ' ';
+          position = current.endIndex;
+        }
+        return;
+      }
+      for (let i = 0; i < current.childCount; i++) {
+        collectComments(current.child(i));
+      }
+    };
+    collectComments(node);
+    header += fileContent.substring(position, bodyNode.startIndex);
+    
+    return normalizeType(header);
   }
   
   /**
@@ -854,7 +1331,11 @@ export class CodeParser {
     node: any, 
     visitors: { 
       visitFunction?: (node: any) => void, 
-      visitClass?: (node: any) => void 
+      visitClass?: (node: any) => void,
+      visitInterface?: (node: any) => void,
+      visitTypeAlias?: (node: any) => void,
+      visitEnum?: (node: any) => void,
+      visitExport?: (node: any) => void
     },
     fileContent: string
   ) {
@@ -864,21 +1345,24 @@ export class CodeParser {
       case 'function_declaration':
       case 'method_definition':
       case 'generator_function_declaration':
+      case 'function_signature':
       case 'function':
         if (visitors.visitFunction) {
           visitors.visitFunction(node);
         }
         break;
       case 'class_declaration':
+      case 'abstract_class_declaration':
         if (visitors.visitClass) {
           visitors.visitClass(node);
         }
         // Skip traversing into class body to avoid processing methods twice
         const body = node.childForFieldName('body');
         if (body) {
-          // Skip this child node when recursively processing
+          // Skip this child node when recursively processing. Node wrappers are not
+          // guaranteed to be the same object across accesses, so compare offsets.
           for (let i = 0; i < node.childCount; i++) {
-            if (node.child(i) !== body) {
+            if (node.child(i).startIndex !== body.startIndex) {
               this.traverseTree(node.child(i), visitors, fileContent);
             }
           }
@@ -892,8 +1376,7 @@ export class CodeParser {
           if (declarator && declarator.type === 'variable_declarator') {
             // Check if it's a function assignment
             const valueNode = declarator.lastNamedChild;
-            if (valueNode && 
-                (valueNode.type === 'arrow_function' || valueNode.type === 'function')) {
+            if (valueNode && this.isFunctionValue(valueNode)) {
               if (visitors.visitFunction) {
                 visitors.visitFunction(declarator);
               }
@@ -901,8 +1384,16 @@ export class CodeParser {
           }
         }
         break;
-      // TypeScript specific node types - removed interface_declaration processing
+      // TypeScript specific node types
+      case 'interface_declaration':
+        if (visitors.visitInterface) {
+          visitors.visitInterface(node);
+        }
+        break;
       case 'type_alias_declaration':
+        if (visitors.visitTypeAlias) {
+          visitors.visitTypeAlias(node);
+        }
         // Check if the type alias is for a function type
         const typeNode = node.childForFieldName('value');
         if (typeNode && (
@@ -914,16 +1405,24 @@ export class CodeParser {
         }
         break;
       case 'export_statement':
+        if (visitors.visitExport) {
+          visitors.visitExport(node);
+        }
         // Process exports to find functions or classes being exported
         for (let i = 0; i < node.childCount; i++) {
           this.traverseTree(node.child(i), visitors, fileContent);
         }
         // Return early to avoid duplicate processing
         return;
+      case 'assignment_expression':
+        // CommonJS exports: module.exports = ..., exports.name = ...
+        if (visitors.visitExport) {
+          visitors.visitExport(node);
+        }
+        break;
       case 'enum_declaration':
-        // Handle TypeScript enums like classes
-        if (visitors.visitClass) {
-          visitors.visitClass(node);
+        if (visitors.visitEnum) {
+          visitors.visitEnum(node);
         }
         break;
     }
@@ -937,64 +1436,254 @@ export class CodeParser {
   /**
    * Parse a single file to extract function and class declarations
    * @param filePath Path to the file
+   * @param cache Cache to serve unchanged files from and store new results in (optional)
+   * @param fileContent Content of the file, if it was already read (optional)
    */
   async parseFile(
     filePath: string,
+    cache?: DeclarationCache,
+    fileContent?: string
   ): Promise<FileDeclaration> {
     try {
       // Get the appropriate language parser
       const language = this.getLanguageForFile(filePath);
       if (language === 'unknown' || language === 'json') {
         // Skip unsupported files
-        return { fileName: filePath, functions: [], classes: [] };
+        return this.emptyFileDeclaration(filePath);
       }
 
-      // Initialize the parser with the correct language
-      await this.initParser(language);
-
       // Read the file
-      const fileContent = fs.readFileSync(filePath, 'utf8');
+      if (fileContent === undefined) {
+        fileContent = this.fileSource.readFile(filePath);
+      }
 
-      // Parse the code
-      const tree = this.parser.parse(fileContent);
+      // Unchanged files are served from the cache without touching tree-sitter
+      const cached = cache ? cache.get(filePath, fileContent) : undefined;
+      if (cached) {
+        return this.assignIds(filePath, cached);
+      }
 
-      // Extract declarations
-      const { functions, classes } = this.extractDeclarations(tree, filePath, fileContent);
-      
-      // Return as a FileDeclaration
-      return {
-        fileName: filePath,
-        functions,
-        classes
-      };
+      const fileDeclaration = await this.parseContent(filePath, fileContent, language);
+
+      if (cache) {
+        cache.set(filePath, fileContent, fileDeclaration);
+      }
+
+      return fileDeclaration;
+    } catch (error) {
+      this.logger.error(`Error parsing file ${filePath}:`, error);
+      return { ...this.emptyFileDeclaration(filePath), error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Parse source code that was not read from a file, such as an unsaved editor buffer.
+   * Without a file name, the result is named `untitled` with the language's first extension.
+   * @param fileContent Source code
+   * @param options Language to parse as, and/or file name to report and infer the language from
+   * @throws If neither the language nor the file name's extension names a registered language
+   */
+  async parseSource(fileContent: string, options: SourceOptions): Promise<FileDeclaration> {
+    const adapter = options.language
+      ? getLanguageAdapterByName(options.language)
+      : options.fileName ? getLanguageAdapter(options.fileName) : undefined;
+    if (!adapter) {
+      throw new Error(options.language || options.fileName
+        ? `Unsupported language for ${options.language || options.fileName}: no language adapter is registered for it`
+        : 'Either a language or a file name is required to parse source code');
+    }
+
+    const fileName = options.fileName || `untitled${adapter.extensions[0] || ''}`;
+    try {
+      return await this.parseContent(fileName, fileContent, adapter.name);
     } catch (error) {
-      console.error(`Error parsing file ${filePath}:`, error);
-      return { fileName: filePath, functions: [], classes: [] };
+      this.logger.error(`Error parsing ${fileName}:`, error);
+      return { ...this.emptyFileDeclaration(fileName), error: error instanceof Error ? error.message : String(error) };
     }
   }
 
+  /**
+   * Parse source code with the grammar of a language and extract its declarations
+   * @param filePath Path to report the declarations under
+   * @param fileContent Source code
+   * @param language Language to parse as
+   */
+  private async parseContent(filePath: string, fileContent: string, language: string): Promise<FileDeclaration> {
+    // Initialize the parser with the correct language
+    await this.initParser(language);
+
+    // Parse the code
+    const tree = this.parser.parse(fileContent);
+
+    // Extract declarations
+    const declarations = this.extractDeclarations(tree, filePath, fileContent, language);
+
+    // Return as a FileDeclaration
+    return {
+      fileName: filePath,
+      ...declarations
+    };
+  }
+
+  /**
+   * Give declarations stable ids built from the file path relative to the root directory and the
+   * qualified name, e.g. `src/user.ts#UserManager.addUser`. Repeated names (overloads, accessor
+   * pairs, merged declarations) get an occurrence suffix in declaration order: `#parse`, `#parse~1`.
+   * Cached and worker-parsed files are passed through again, since their root may differ.
+   * @param filePath Path to the source file
+   * @param declarations Declarations of the file, updated in place
+   */
+  private assignIds<T extends Omit<FileDeclaration, 'fileName'>>(filePath: string, declarations: T): T {
+    const relativePath = toPosixPath(path.relative(this.rootDirectory, filePath));
+    const occurrences = new Map<string, number>();
+
+    const makeId = (qualifiedName: string): string => {
+      const occurrence = occurrences.get(qualifiedName) || 0;
+      occurrences.set(qualifiedName, occurrence + 1);
+      return `${relativePath}#${qualifiedName}${occurrence > 0 ? `~${occurrence}` : ''}`;
+    };
+
+    for (const func of declarations.functions) {
+      if (!func.typeAlias) {
+        func.id = makeId(func.functionName);
+      }
+    }
+    for (const cls of declarations.classes) {
+      cls.id = makeId(cls.className);
+      for (const method of cls.methods) {
+        method.id = makeId(`${cls.className}.${method.functionName}`);
+      }
+    }
+    for (const decl of declarations.interfaces) {
+      decl.id = makeId(decl.interfaceName);
+    }
+    for (const decl of declarations.typeAliases) {
+      decl.id = makeId(decl.aliasName);
+    }
+    for (const decl of declarations.enums) {
+      decl.id = makeId(decl.enumName);
+    }
+    // Call signatures of function-type aliases come last so the aliases themselves keep their plain ids
+    for (const func of declarations.functions) {
+      if (func.typeAlias) {
+        func.id = makeId(func.functionName);
+      }
+    }
+    return declarations;
+  }
+
+  /**
+   * Recursively walk a directory, honoring ignore files, include/exclude globs and symlink settings
+   * @param directory Directory to walk
+   * @param options File filter options
+   * @param onFile Called with the path of every file that passes the path-based filters
+   */
+  private walkFiles(directory: string, options: FileFilterOptions, onFile: (filePath: string) => void): void {
+    const useIgnoreFiles = options.useIgnoreFiles !== false;
+    const include = new PathMatcher(options.include || []);
+    const exclude = new PathMatcher(options.exclude || []);
+    const visitedDirectories = new Set<string>();
+
+    const walk = (dir: string, ignore: PathMatcher) => {
+      // Guard against symlink loops by tracking the real path of every visited directory
+      if (options.followSymlinks) {
+        const realDir = this.fileSource.realPath(dir);
+        if (visitedDirectories.has(realDir)) return;
+        visitedDirectories.add(realDir);
+      }
+
+      const relativeDir = toPosixPath(path.relative(directory, dir));
+      if (useIgnoreFiles) {
+        ignore = loadIgnoreFiles(ignore, dir, relativeDir, this.fileSource, this.logger);
+      }
+
+      const items = this.fileSource.readDirectory(dir)
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+      for (const item of items) {
+        const itemPath = path.join(dir, item.name);
+        const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+
+        let isDirectory = item.isDirectory;
+        let isFile = item.isFile;
+
+        if (item.isSymbolicLink) {
+          if (!options.followSymlinks) continue;
+          const stats = this.fileSource.stat(itemPath);
+          // Dangling symlink
+          if (!stats) continue;
+          isDirectory = stats.isDirectory;
+          isFile = stats.isFile;
+        }
+
+        if (isDirectory) {
+          if (item.name === '.git') continue;
+          if (ignore.matches(relativePath, true) || exclude.matches(relativePath, true)) continue;
+          walk(itemPath, ignore);
+        } else if (isFile) {
+          if (ignore.matches(relativePath, false) || exclude.matches(relativePath, false)) continue;
+          if (!include.isEmpty && !include.matches(relativePath, false)) continue;
+          onFile(itemPath);
+        }
+      }
+    };
+
+    walk(directory, new PathMatcher(useIgnoreFiles ? DEFAULT_IGNORE_PATTERNS : []));
+  }
+
+  /**
+   * Check whether a file is too large or looks minified, and should be skipped
+   * @param filePath Path to the file
+   * @param options File filter options
+   */
+  private shouldSkipFile(filePath: string, options: FileFilterOptions): boolean {
+    const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    const stats = this.fileSource.stat(filePath);
+    const size = stats ? stats.size : 0;
+    if (size > maxFileSize) {
+      this.logger.warn(`Skipping ${filePath}: ${size} bytes exceeds the ${maxFileSize} byte limit`);
+      return true;
+    }
+
+    if (!options.includeMinified && this.looksMinified(filePath)) {
+      this.logger.warn(`Skipping ${filePath}: file looks minified`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Heuristically detect minified files from their name or the line lengths at the start of the file
+   * @param filePath Path to the file
+   */
+  private looksMinified(filePath: string): boolean {
+    if (/\.min\.[^.]+$/.test(path.basename(filePath))) return true;
+
+    const sample = this.fileSource.readFileStart(filePath, MINIFIED_SAMPLE_SIZE);
+    const lines = sample.split('\n');
+    return sample.length >= MINIFIED_LINE_LENGTH && sample.length / lines.length > MINIFIED_LINE_LENGTH;
+  }
+
   /**
    * Recursively find all files with specified extensions in a directory
    * @param directory Directory to search
    * @param extensions File extensions to include
+   * @param options File filter options
+   * @param candidates Only return files from this set, as paths joined onto `directory` (optional)
    */
-  findFiles(directory: string, extensions: string[]): string[] {
+  findFiles(directory: string, extensions: string[], options: FileFilterOptions = {}, candidates?: Set<string>): string[] {
     const results: string[] = [];
 
-    const items = fs.readdirSync(directory, { withFileTypes: true });
-
-    for (const item of items) {
-      const itemPath = path.join(directory, item.name);
-
-      if (item.isDirectory()) {
-        results.push(...this.findFiles(itemPath, extensions));
-      } else if (
-        item.isFile() &&
-        extensions.includes(path.extname(item.name).toLowerCase())
+    this.walkFiles(directory, options, (filePath) => {
+      if (
+        (!candidates || candidates.has(filePath)) &&
+        extensions.includes(path.extname(filePath).toLowerCase()) &&
+        !this.shouldSkipFile(filePath, options)
       ) {
-        results.push(itemPath);
+        results.push(filePath);
       }
-    }
+    });
 
     return results;
   }
@@ -1002,36 +1691,20 @@ export class CodeParser {
   /**
    * Detect file extensions present in a directory
    * @param directory Directory to scan
+   * @param options File filter options
    * @returns Array of file extensions found (with leading dots)
    */
-  async detectFileExtensions(directory: string): Promise<string[]> {
+  async detectFileExtensions(directory: string, options: FileFilterOptions = {}): Promise<string[]> {
     try {
       // Set to track unique extensions
       const extensions = new Set<string>();
 
-      // Helper function to recursively scan directories
-      const scanDir = async (dir: string) => {
-        const entries = await fs.promises.readdir(dir, { withFileTypes: true });
-
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-
-          if (entry.isDirectory()) {
-            // Skip node_modules and hidden directories
-            if (entry.name === 'node_modules' || entry.name.startsWith('.')) {
-              continue;
-            }
-            await scanDir(fullPath);
-          } else if (entry.isFile()) {
-            const ext = path.extname(entry.name);
-            if (ext) {
-              extensions.add(ext);
-            }
-          }
+      this.walkFiles(directory, options, (filePath) => {
+        const ext = path.extname(filePath);
+        if (ext) {
+          extensions.add(ext);
         }
-      };
-
-      await scanDir(directory);
+      });
 
       // Convert set to array
       const extensionsArray = Array.from(extensions);
@@ -1043,12 +1716,55 @@ export class CodeParser {
 
       return extensionsArray;
     } catch (error) {
-      console.error(`Error detecting file extensions: ${error}`);
+      this.logger.error(`Error detecting file extensions: ${error}`);
       // Return default extensions on error
       return ['.js', '.ts', '.jsx', '.tsx'];
     }
   }
 
+  /**
+   * Parse all matching files in a directory, yielding the declarations of each file
+   * as soon as it is parsed, in the same order as `parseDirectory` returns them.
+   * Unlike `parseDirectory`, errors are thrown rather than logged.
+   * @param options Parser options
+   */
+  async *parseDirectoryStream(options: ParserOptions): AsyncGenerator<FileDeclaration> {
+    // Ids are relative to the directory being parsed
+    this.rootDirectory = options.directory;
+
+    // Detect file extensions if not provided
+    if (!options.fileExtensions || options.fileExtensions.length === 0) {
+      options.fileExtensions = await this.detectFileExtensions(options.directory, options);
+      this.logger.info(`Detected file extensions: ${options.fileExtensions.join(', ')}`);
+    }
+
+    // Find all matching files
+    const files = this.findFiles(options.directory, options.fileExtensions, options);
+
+    if (options.concurrency && options.concurrency > 1 && files.length > 1) {
+      if (canLoadAdaptersInWorkers()) {
+        // Workers do not know the root directory, so re-derive the ids here
+        // Workers read from the file system on their own; content from any other source is sent along
+        const readFile = this.fileSource instanceof FileSystemSource
+          ? undefined
+          : (filePath: string) => this.fileSource.readFile(filePath);
+        for await (const fileDeclaration of streamFilesInWorkers(files, options.concurrency, options.cacheDir, readFile, this.logger)) {
+          yield this.assignIds(fileDeclaration.fileName, fileDeclaration);
+        }
+        return;
+      }
+      // Adapters registered on this thread cannot be set up in workers
+      this.logger.warn('Language adapters registered with registerLanguage cannot run on worker threads, parsing on the main thread');
+    }
+
+    const cache = options.cacheDir ? new DeclarationCache(options.cacheDir, this.logger) : undefined;
+
+    // Parse each file
+    for (const file of files) {
+      yield await this.parseFile(file, cache);
+    }
+  }
+
   /**
    * Parse all files in a directory to extract function and class declarations
    * @param options Parser options
@@ -1059,39 +1775,50 @@ export class CodeParser {
     const fileDeclarations: FileDeclaration[] = [];
 
     try {
-      // Reset counter for a fresh run
-      this.idCounter = 1;
-
-      // Detect file extensions if not provided
-      if (!options.fileExtensions || options.fileExtensions.length === 0) {
-        options.fileExtensions = await this.detectFileExtensions(options.directory);
-        console.log(`Detected file extensions: ${options.fileExtensions.join(', ')}`);
-      }
-
-      // Find all matching files
-      const files = this.findFiles(options.directory, options.fileExtensions);
-
-      // Parse each file
-      for (const file of files) {
-        const fileDeclaration = await this.parseFile(file);
+      for await (const fileDeclaration of this.parseDirectoryStream(options)) {
         fileDeclarations.push(fileDeclaration);
       }
-
       return fileDeclarations;
     } catch (error) {
-      console.error('Error parsing directory:', error);
+      this.logger.error('Error parsing directory:', error);
       return [];
     }
   }
 }
 
-// Export functions that use the singleton instance for backward compatibility
-export async function parseFile(filePath: string, options: ParserOptions): Promise<FileDeclaration> {
-  const parser = new CodeParser();
-  return parser.parseFile(filePath);
+/**
+ * Parse a single file. Of the options, only `directory` with `rev`, `cacheDir` and `logger` apply;
+ * ids are relative to the current directory.
+ * @param filePath Path to the file
+ * @param options Parser options (optional)
+ */
+export async function parseFile(filePath: string, options: Partial<ParserOptions> = {}): Promise<FileDeclaration> {
+  const parser = new CodeParser(options.rev ? new GitRevisionSource(options.directory || '.', options.rev) : undefined, options.logger);
+  const cache = options.cacheDir ? new DeclarationCache(options.cacheDir, options.logger) : undefined;
+  return parser.parseFile(filePath, cache);
+}
+
+/**
+ * Parse source code held in memory, such as an unsaved editor buffer
+ * @param code Source code
+ * @param options Language to parse as, and/or file name to report and infer the language from
+ * @throws If neither the language nor the file name's extension names a registered language
+ */
+export async function parseSource(code: string, options: SourceOptions): Promise<FileDeclaration> {
+  const parser = new CodeParser(undefined, options.logger);
+  return parser.parseSource(code, options);
 }
 
 export async function parseDirectory(options: ParserOptions): Promise<FileDeclaration[]> {
-  const parser = new CodeParser();
+  const parser = new CodeParser(options.rev ? new GitRevisionSource(options.directory, options.rev) : undefined, options.logger);
   return parser.parseDirectory(options);
 }
+
+/**
+ * Parse a directory, yielding the declarations of each file as soon as it is parsed
+ * @param options Parser options
+ */
+export function parseDirectoryStream(options: ParserOptions): AsyncGenerator<FileDeclaration> {
+  const parser = new CodeParser(options.rev ? new GitRevisionSource(options.directory, options.rev) : undefined, options.logger);
+  return parser.parseDirectoryStream(options);
+}
@@ -0,0 +1,392 @@
+import type {
+  FileDeclaration,
+  FunctionDeclaration,
+  ClassDeclaration,
+  FunctionModifiers,
+  ParameterInfo,
+  TypeParameterInfo,
+  DocComment,
+  SourceLocation,
+  SourceRange
+} from './types';
+import { parseDocstring } from './docstring';
+import { collapseWhitespace, normalizeType } from './signature';
+import type { CallSignature } from './signature';
+
+// Decorators that give a method its kind or modifiers, by name without arguments
+const STATIC_DECORATORS = new Set(['staticmethod', 'classmethod']);
+const GETTER_DECORATORS = new Set(['property', 'cached_property', 'functools.cached_property']);
+const ABSTRACT_DECORATORS = new Set(['abstractmethod', 'abc.abstractmethod']);
+
+/**
+ * Extract function and class declarations from a Python syntax tree.
+ * Python has no exports: module-level names are exported when they are listed in `__all__`,
+ * or, without `__all__`, when they do not start with an underscore.
+ * Ids are left empty for the caller to assign.
+ * @param rootNode The `module` node of the tree
+ * @param getRange Gets the source range of a node
+ */
+export function extractPythonDeclarations(
+  rootNode: any,
+  getRange: (node: any) => SourceRange
+): Omit<FileDeclaration, 'fileName'> {
+  const functions: FunctionDeclaration[] = [];
+  const classes: ClassDeclaration[] = [];
+  const publicNames = findAllNames(rootNode);
+
+  const isExported = (node: any, name: string): boolean => {
+    if (!isModuleScope(node)) return false;
+    return publicNames ? publicNames.has(name) : !name.startsWith('_');
+  };
+
+  const getSourceLocation = (node: any): SourceLocation => {
+    const nameNode = node.childForFieldName('name');
+    const bodyNode = node.childForFieldName('body');
+    // Decorators are part of the declaration
+    const declarationNode = node.parent && node.parent.type === 'decorated_definition' ? node.parent : node;
+    return {
+      range: getRange(declarationNode),
+      nameRange: nameNode ? getRange(nameNode) : undefined,
+      bodyRange: bodyNode ? getRange(bodyNode) : undefined
+    };
+  };
+
+  const toFunction = (node: any, inClass: boolean): FunctionDeclaration => {
+    const name = node.childForFieldName('name').text;
+    const decorators = getDecorators(node);
+    const decoratorNames = decorators.map(getDecoratorName);
+    const isStatic = decoratorNames.some(decorator => STATIC_DECORATORS.has(decorator));
+
+    let parameters = extractParameters(node.childForFieldName('parameters'));
+    // self and cls are passed implicitly
+    if (inClass && !decoratorNames.includes('staticmethod')) {
+      parameters = parameters.slice(1);
+    }
+
+    const typeParameters = extractTypeParameters(node);
+    const returnTypeNode = node.childForFieldName('return_type');
+    const returnType = returnTypeNode ? returnTypeNode.text : undefined;
+
+    const modifiers: FunctionModifiers = {
+      kind: inClass ? getMethodKind(name, decoratorNames) : 'function',
+      async: hasToken(node, 'async'),
+      generator: containsYield(node.childForFieldName('body')),
+      static: isStatic,
+      abstract: decoratorNames.some(decorator => ABSTRACT_DECORATORS.has(decorator)),
+      readonly: false,
+      // Leading underscores mark names as internal, dunder methods are public
+      ...(inClass && name.startsWith('_') && !isDunder(name) ? { accessibility: 'private' as const } : {})
+    };
+
+    return {
+      id: '',
+      functionName: name,
+      lineNo: node.startPosition.row + 1,
+      typeParameters,
+      parameters,
+      returnType,
+      signature: formatPythonSignature(name, { typeParameters, parameters, returnType }),
+      ...(decorators.length > 0 ? { decorators } : {}),
+      doc: getDocstring(node),
+      ...getSourceLocation(node),
+      ...modifiers,
+      exported: !inClass && isExported(node, name),
+      defaultExport: false,
+      reExported: false
+    };
+  };
+
+  const toClass = (node: any, className: string, exported: boolean): ClassDeclaration => {
+    const decorators = getDecorators(node);
+    const methods: FunctionDeclaration[] = [];
+
+    const body = node.childForFieldName('body');
+    if (body) {
+      for (let i = 0; i < body.namedChildCount; i++) {
+        const child = unwrapDecorated(body.namedChild(i));
+        if (child && child.type === 'function_definition') {
+          methods.push(toFunction(child, true));
+        }
+      }
+    }
+
+    // Superclasses without the comments that may sit between them
+    const superclasses = node.childForFieldName('superclasses');
+    const bases: string[] = [];
+    if (superclasses) {
+      for (let i = 0; i < superclasses.namedChildCount; i++) {
+        const child = superclasses.namedChild(i);
+        if (child.type !== 'comment') bases.push(child.text);
+      }
+    }
+    const typeParametersNode = node.childForFieldName('type_parameters');
+    const signature = normalizeType(`class ${className}${typeParametersNode ? typeParametersNode.text : ''}${superclasses ? `(${bases.join(', ')})` : ''}`);
+
+    return {
+      id: '',
+      className,
+      lineNo: node.startPosition.row + 1,
+      typeParameters: extractTypeParameters(node),
+      signature,
+      abstract: methods.some(method => method.abstract) ||
+        bases.some(base => base === 'ABC' || base === 'abc.ABC' || /^metaclass\s*=\s*(abc\.)?ABCMeta$/.test(base)),
+      methods,
+      ...(decorators.length > 0 ? { decorators } : {}),
+      doc: getDocstring(node),
+      ...getSourceLocation(node),
+      exported,
+      defaultExport: false,
+      reExported: false
+    };
+  };
+
+  // Nested classes are named after their enclosing class, e.g. `Outer.Inner`, also in their
+  // signature, and are exported along with it unless their own name marks them internal
+  const visitClass = (node: any, outer?: ClassDeclaration) => {
+    const name = node.childForFieldName('name').text;
+    const cls = outer
+      ? toClass(node, `${outer.className}.${name}`, outer.exported && !name.startsWith('_'))
+      : toClass(node, name, isExported(node, name));
+    classes.push(cls);
+
+    const body = node.childForFieldName('body');
+    for (let i = 0; body && i < body.namedChildCount; i++) {
+      const child = unwrapDecorated(body.namedChild(i));
+      if (child && child.type === 'class_definition') {
+        visitClass(child, cls);
+      }
+    }
+  };
+
+  // Functions nested in functions are reported too, as they are for JavaScript;
+  // class bodies only contribute methods and nested classes
+  const visit = (node: any) => {
+    if (node.type === 'function_definition') {
+      functions.push(toFunction(node, false));
+    } else if (node.type === 'class_definition') {
+      visitClass(node);
+      return;
+    }
+
+    for (let i = 0; i < node.namedChildCount; i++) {
+      visit(node.namedChild(i));
+    }
+  };
+  visit(rootNode);
+
+  return { functions, classes, interfaces: [], typeAliases: [], enums: [] };
+}
+
+/**
+ * Find the names listed in a module-level `__all__`, or undefined if there is none
+ */
+function findAllNames(rootNode: any): Set<string> | undefined {
+  let names: Set<string> | undefined;
+
+  for (let i = 0; i < rootNode.namedChildCount; i++) {
+    const statement = rootNode.namedChild(i);
+    const expression = statement.type === 'expression_statement' ? statement.firstNamedChild : null;
+    if (!expression || (expression.type !== 'assignment' && expression.type !== 'augmented_assignment')) continue;
+
+    const left = expression.childForFieldName('left');
+    const right = expression.childForFieldName('right');
+    if (!left || left.text !== '__all__' || !right) continue;
+
+    // `__all__ = [...]` starts over, `__all__ += [...]` extends
+    if (expression.type === 'assignment' || !names) names = new Set();
+    for (let j = 0; j < right.namedChildCount; j++) {
+      const item = right.namedChild(j);
+      if (item.type === 'string') {
+        const content = item.namedChildren.find((child: any) => child.type === 'string_content');
+        if (content) names.add(content.text);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Check whether a definition is at module level, including inside `if` and `try` blocks
+ */
+function isModuleScope(node: any): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'function_definition' || current.type === 'class_definition') return false;
+  }
+  return true;
+}
+
+/**
+ * Get the definition inside a decorated definition, or the node itself
+ */
+function unwrapDecorated(node: any): any {
+  return node && node.type === 'decorated_definition' ? node.childForFieldName('definition') : node;
+}
+
+/**
+ * Get the decorators of a definition as written, without the `@`
+ */
+function getDecorators(node: any): string[] {
+  const decorators: string[] = [];
+  if (!node.parent || node.parent.type !== 'decorated_definition') return decorators;
+
+  for (let i = 0; i < node.parent.namedChildCount; i++) {
+    const child = node.parent.namedChild(i);
+    if (child.type === 'decorator') {
+      decorators.push(normalizeType(child.text.replace(/^@\s*/, '')));
+    }
+  }
+  return decorators;
+}
+
+/**
+ * Get the name a decorator is called by, e.g. `functools.wraps` for `functools.wraps(f)`
+ */
+function getDecoratorName(decorator: string): string {
+  const parenthesis = decorator.indexOf('(');
+  return (parenthesis === -1 ? decorator : decorator.substring(0, parenthesis)).trim();
+}
+
+/**
+ * Get the kind of a method from its name and decorators
+ */
+function getMethodKind(name: string, decoratorNames: string[]): FunctionModifiers['kind'] {
+  if (name === '__init__') return 'constructor';
+  if (decoratorNames.some(decorator => GETTER_DECORATORS.has(decorator))) return 'getter';
+  if (decoratorNames.some(decorator => decorator.endsWith('.setter'))) return 'setter';
+  return 'method';
+}
+
+function isDunder(name: string): boolean {
+  return name.length > 4 && name.startsWith('__') && name.endsWith('__');
+}
+
+/**
+ * Check whether a node has an anonymous token child such as `async`
+ */
+function hasToken(node: any, token: string): boolean {
+  for (let i = 0; i < node.childCount; i++) {
+    const child = node.child(i);
+    if (!child.isNamed && child.type === token) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a function body yields, without looking into nested functions and classes
+ */
+function containsYield(node: any): boolean {
+  if (!node) return false;
+  if (node.type === 'yield') return true;
+  if (node.type === 'function_definition' || node.type === 'lambda' || node.type === 'class_definition') return false;
+
+  for (let i = 0; i < node.namedChildCount; i++) {
+    if (containsYield(node.namedChild(i))) return true;
+  }
+  return false;
+}
+
+/**
+ * Parse the docstring of a function or class: a string that is the first statement of its body
+ */
+function getDocstring(node: any): DocComment | undefined {
+  const body = node.childForFieldName('body');
+  const first = body ? body.namedChildren.find((child: any) => child.type !== 'comment') : undefined;
+  if (!first || first.type !== 'expression_statement' || first.namedChildCount !== 1) return undefined;
+
+  const literal = first.firstNamedChild;
+  return literal.type === 'string' ? parseDocstring(literal.text) : undefined;
+}
+
+/**
+ * Extract parameters with their annotations and defaults. Variadic parameters keep
+ * their `*` and `**`, and the bare `/` and `*` separators are kept as parameters named
+ * `/` and `*` without a type, so `def f(a, /, b, *, c)` renders as `f(a, /, b, *, c)`.
+ */
+function extractParameters(parametersNode: any): ParameterInfo[] {
+  const parameters: ParameterInfo[] = [];
+  if (!parametersNode) return parameters;
+
+  for (let i = 0; i < parametersNode.namedChildCount; i++) {
+    const param = parametersNode.namedChild(i);
+    const typeNode = param.childForFieldName('type');
+    const type = typeNode ? typeNode.text : '';
+
+    switch (param.type) {
+      case 'identifier':
+      case 'positional_separator':
+      case 'keyword_separator':
+        parameters.push({ name: param.text, type: '', optional: false });
+        break;
+      case 'list_splat_pattern':
+      case 'dictionary_splat_pattern':
+        parameters.push({ name: param.text, type: '', optional: false, variadic: true });
+        break;
+      case 'typed_parameter': {
+        // The name is the first child: an identifier or a splat pattern
+        const nameNode = param.firstNamedChild;
+        parameters.push({
+          name: nameNode.text,
+          type,
+          optional: false,
+          ...(nameNode.type !== 'identifier' ? { variadic: true } : {})
+        });
+        break;
+      }
+      case 'default_parameter':
+      case 'typed_default_parameter': {
+        const valueNode = param.childForFieldName('value');
+        parameters.push({
+          name: param.childForFieldName('name').text,
+          type,
+          optional: true,
+          ...(valueNode ? { defaultValue: valueNode.text } : {})
+        });
+        break;
+      }
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Render a signature in Python syntax, e.g. `fetch[T: str](url: T, retries: int = 3, *args) -> dict`
+ */
+function formatPythonSignature(name: string, func: CallSignature): string {
+  const typeParameters = func.typeParameters.length > 0
+    ? `[${func.typeParameters.map(param => param.name + (param.constraint ? `: ${normalizeType(param.constraint)}` : '')).join(', ')}]`
+    : '';
+  const parameters = func.parameters.map(param => {
+    const type = param.type ? `: ${normalizeType(param.type)}` : '';
+    if (param.defaultValue === undefined) return `${param.name}${type}`;
+    // PEP 8 spacing: `retries=3` without an annotation, `retries: int = 3` with one
+    return `${param.name}${type}${param.type ? ' = ' : '='}${collapseWhitespace(param.defaultValue)}`;
+  });
+  const returnType = func.returnType ? ` -> ${normalizeType(func.returnType)}` : '';
+  return `${name}${typeParameters}(${parameters.join(', ')})${returnType}`;
+}
+
+/**
+ * Extract PEP 695 type parameters, e.g. `[T: int, *Ts, **P]`
+ */
+function extractTypeParameters(node: any): TypeParameterInfo[] {
+  const typeParameters: TypeParameterInfo[] = [];
+  const typeParametersNode = node.childForFieldName('type_parameters');
+  if (!typeParametersNode) return typeParameters;
+
+  for (let i = 0; i < typeParametersNode.namedChildCount; i++) {
+    const param = typeParametersNode.namedChild(i);
+    if (param.type !== 'type') continue;
+
+    // `T: int` is a constrained type holding the name and the bound
+    const inner = param.firstNamedChild;
+    if (inner && inner.type === 'constrained_type' && inner.namedChildCount === 2) {
+      typeParameters.push({ name: inner.namedChild(0).text, constraint: inner.namedChild(1).text });
+    } else {
+      typeParameters.push({ name: param.text });
+    }
+  }
+
+  return typeParameters;
+}
@@ -0,0 +1,528 @@
+import type {
+  FileDeclaration,
+  FunctionDeclaration,
+  ClassDeclaration,
+  InterfaceDeclaration,
+  InterfaceMember,
+  TypeAliasDeclaration,
+  EnumDeclaration,
+  ParameterInfo,
+  TypeParameterInfo,
+  DocComment,
+  SourceLocation,
+  SourceRange
+} from './types';
+import { normalizeType } from './signature';
+import type { CallSignature } from './signature';
+
+// Item kinds that become classes: structs and unions always, enums when they have methods
+const STRUCT_ITEMS = new Set(['struct_item', 'union_item']);
+
+/**
+ * Extract declarations from a Rust syntax tree:
+ * - free functions
+ * - structs and unions, and enums with methods, as classes; the methods of their `impl` and
+ *   `impl Trait for Type` blocks are grouped under them. Fields are part of the class signature.
+ * - enums without methods as enums
+ * - traits as interfaces, with their methods and associated constants as members
+ * - type aliases
+ * Methods of a type declared in another file are listed as functions named `Type::method`.
+ * Items inside inline modules (`mod tests { ... }`) are left out.
+ * Items are exported when they are `pub`; restricted visibility such as `pub(crate)` is kept in
+ * `visibility`. Methods without a visibility are private, except in trait impls.
+ * `where` predicates on a type parameter are merged into its constraint.
+ * Ids are left empty for the caller to assign.
+ * @param rootNode The `source_file` node of the tree
+ * @param getRange Gets the source range of a node
+ */
+export function extractRustDeclarations(
+  rootNode: any,
+  getRange: (node: any) => SourceRange
+): Omit<FileDeclaration, 'fileName'> {
+  const functions: FunctionDeclaration[] = [];
+  const classes: ClassDeclaration[] = [];
+  const interfaces: InterfaceDeclaration[] = [];
+  const typeAliases: TypeAliasDeclaration[] = [];
+  const enums: EnumDeclaration[] = [];
+
+  const methodsByType = new Map<string, FunctionDeclaration[]>();
+  const typeItems: any[] = [];
+
+  const getSourceLocation = (node: any): SourceLocation => {
+    const nameNode = node.childForFieldName('name');
+    const bodyNode = node.childForFieldName('body') || node.childForFieldName('type');
+    return {
+      range: getRange(node),
+      nameRange: nameNode ? getRange(nameNode) : undefined,
+      bodyRange: bodyNode ? getRange(bodyNode) : undefined
+    };
+  };
+
+  /**
+   * @param implNode The `impl` block of a method, or undefined for free functions
+   */
+  const toFunction = (node: any, implNode?: any): FunctionDeclaration => {
+    const name = node.childForFieldName('name').text;
+    const isMethod = implNode !== undefined;
+    const visibility = getVisibility(node);
+    const typeParameters = extractTypeParameters(node);
+    const { parameters, hasReceiver } = extractParameters(node.childForFieldName('parameters'));
+    const returnTypeNode = node.childForFieldName('return_type');
+    const returnType = returnTypeNode ? returnTypeNode.text : undefined;
+    const qualifiers = getQualifiers(node);
+    const isAsync = qualifiers.includes('async');
+    const otherQualifiers = qualifiers.filter(qualifier => qualifier !== 'async');
+
+    // Methods of trait impls are as visible as the trait
+    const isPrivate = isMethod && !visibility && !implNode.childForFieldName('trait');
+
+    return {
+      id: '',
+      functionName: name,
+      lineNo: node.startPosition.row + 1,
+      typeParameters,
+      parameters,
+      returnType,
+      signature: formatRustSignature(name, { typeParameters, parameters, returnType }),
+      ...(otherQualifiers.length > 0 ? { qualifiers: otherQualifiers } : {}),
+      doc: getDocComment(node),
+      ...getSourceLocation(node),
+      kind: isMethod ? 'method' : 'function',
+      async: isAsync,
+      generator: false,
+      // Associated functions without a receiver are called on the type
+      static: isMethod && !hasReceiver,
+      abstract: false,
+      readonly: false,
+      ...(isPrivate ? { accessibility: 'private' as const } : {}),
+      ...(visibility && visibility !== 'pub' ? { visibility } : {}),
+      exported: !isMethod && visibility === 'pub',
+      defaultExport: false,
+      reExported: false
+    };
+  };
+
+  for (let i = 0; i < rootNode.namedChildCount; i++) {
+    const node = rootNode.namedChild(i);
+
+    switch (node.type) {
+      case 'function_item':
+        functions.push(toFunction(node));
+        break;
+      case 'impl_item': {
+        const typeName = getImplTypeName(node.childForFieldName('type'));
+        const body = node.childForFieldName('body');
+        const methods = methodsByType.get(typeName) || [];
+        for (let j = 0; body && j < body.namedChildCount; j++) {
+          const child = body.namedChild(j);
+          if (child.type === 'function_item') methods.push(toFunction(child, node));
+        }
+        methodsByType.set(typeName, methods);
+        break;
+      }
+      case 'struct_item':
+      case 'union_item':
+      case 'enum_item':
+        typeItems.push(node);
+        break;
+      case 'trait_item':
+        interfaces.push({
+          id: '',
+          interfaceName: node.childForFieldName('name').text,
+          lineNo: node.startPosition.row + 1,
+          typeParameters: extractTypeParameters(node),
+          members: extractTraitMembers(node.childForFieldName('body')),
+          doc: getDocComment(node),
+          ...getSourceLocation(node),
+          ...getExportInfo(node)
+        });
+        break;
+      case 'type_item':
+        typeAliases.push({
+          id: '',
+          aliasName: node.childForFieldName('name').text,
+          lineNo: node.startPosition.row + 1,
+          typeParameters: extractTypeParameters(node),
+          type: node.childForFieldName('type').text,
+          doc: getDocComment(node),
+          ...getSourceLocation(node),
+          ...getExportInfo(node)
+        });
+        break;
+    }
+  }
+
+  for (const node of typeItems) {
+    const name = node.childForFieldName('name').text;
+    const methods = methodsByType.get(name);
+
+    if (STRUCT_ITEMS.has(node.type) || methods) {
+      methodsByType.delete(name);
+      classes.push({
+        id: '',
+        className: name,
+        lineNo: node.startPosition.row + 1,
+        typeParameters: extractTypeParameters(node),
+        signature: normalizeType(`${typeHeaderText(node)}${bodyText(node.childForFieldName('body'))}`),
+        abstract: false,
+        methods: methods || [],
+        doc: getDocComment(node),
+        ...getSourceLocation(node),
+        ...getExportInfo(node)
+      });
+    } else {
+      enums.push({
+        id: '',
+        enumName: name,
+        lineNo: node.startPosition.row + 1,
+        members: node.childForFieldName('body').namedChildren
+          .filter((variant: any) => variant.type === 'enum_variant')
+          .map((variant: any) => {
+            const valueNode = variant.childForFieldName('value');
+            return { name: variant.childForFieldName('name').text, ...(valueNode ? { value: valueNode.text } : {}) };
+          }),
+        doc: getDocComment(node),
+        ...getSourceLocation(node),
+        ...getExportInfo(node)
+      });
+    }
+  }
+
+  // Methods of a type declared in another file of the crate, exported when they are `pub`
+  // or belong to a trait impl (restricted and private methods carry `visibility` or `accessibility`)
+  for (const [typeName, methods] of methodsByType) {
+    for (const method of methods) {
+      const functionName = `${typeName}::${method.functionName}`;
+      functions.push({
+        ...method,
+        functionName,
+        signature: formatRustSignature(functionName, method),
+        exported: !method.visibility && !method.accessibility
+      });
+    }
+  }
+
+  // Keep source order, which the grouping above does not preserve
+  functions.sort((a, b) => a.range.start.offset - b.range.start.offset);
+
+  return { functions, classes, interfaces, typeAliases, enums };
+}
+
+/**
+ * Get the visibility of an item as written, e.g. `pub` or `pub(crate)`, or undefined for private items
+ */
+function getVisibility(node: any): string | undefined {
+  const modifier = node.namedChildren.find((child: any) => child.type === 'visibility_modifier');
+  return modifier ? modifier.text.replace(/\s+/g, '') : undefined;
+}
+
+/**
+ * Get the export status of an item: only `pub` items are visible outside the crate
+ */
+function getExportInfo(node: any): { exported: boolean, defaultExport: boolean, reExported: boolean, visibility?: string } {
+  const visibility = getVisibility(node);
+  return {
+    exported: visibility === 'pub',
+    defaultExport: false,
+    reExported: false,
+    ...(visibility && visibility !== 'pub' ? { visibility } : {})
+  };
+}
+
+/**
+ * Get the qualifiers of a function as written, e.g. `const`, `async`, `unsafe`, `extern "C"`
+ */
+function getQualifiers(node: any): string[] {
+  const modifiers = node.namedChildren.find((child: any) => child.type === 'function_modifiers');
+  if (!modifiers) return [];
+
+  const qualifiers: string[] = [];
+  for (let i = 0; i < modifiers.childCount; i++) {
+    qualifiers.push(modifiers.child(i).text);
+  }
+  return qualifiers;
+}
+
+/**
+ * Get the name of the type an `impl` block is for, e.g. `Store` for `impl<T> Store<T>` or `&Store<T>`
+ */
+function getImplTypeName(typeNode: any): string {
+  while (typeNode && (typeNode.type === 'reference_type' || typeNode.type === 'generic_type' || typeNode.type === 'pointer_type')) {
+    typeNode = typeNode.childForFieldName('type');
+  }
+  if (typeNode && typeNode.type === 'scoped_type_identifier') {
+    typeNode = typeNode.childForFieldName('name');
+  }
+  return typeNode ? typeNode.text : '';
+}
+
+/**
+ * Render the header of a struct, union or enum without its visibility, e.g. `struct Store<T> where T: Send`
+ */
+function typeHeaderText(node: any): string {
+  const keyword = node.type.replace(/_item$/, '');
+  const typeParametersNode = node.childForFieldName('type_parameters');
+  const whereClause = node.namedChildren.find((child: any) => child.type === 'where_clause');
+  return `${keyword} ${node.childForFieldName('name').text}` +
+    (typeParametersNode ? typeParametersNode.text : '') +
+    (whereClause ? ` ${whereClause.text.replace(/,\s*$/, '')}` : '');
+}
+
+/**
+ * Render fields or variants on one line, leaving out attributes and comments,
+ * e.g. ` { items: Vec<T>, pub name: String }` or `(pub i32, String)`
+ */
+function bodyText(body: any): string {
+  if (!body) return '';
+
+  const entries: string[] = [];
+  if (body.type === 'ordered_field_declaration_list') {
+    // Tuple fields are a flat list of visibilities and types, separated by commas
+    let field: string[] = [];
+    for (let i = 0; i < body.childCount; i++) {
+      const child = body.child(i);
+      if (child.type === ',' || child.type === ')') {
+        if (field.length > 0) entries.push(field.join(' '));
+        field = [];
+      } else if (child.isNamed && child.type !== 'attribute_item' && !child.type.endsWith('comment')) {
+        field.push(child.text);
+      }
+    }
+  } else {
+    for (let i = 0; i < body.namedChildCount; i++) {
+      const child = body.namedChild(i);
+      if (child.type === 'field_declaration' || child.type === 'enum_variant') entries.push(entryText(child));
+    }
+  }
+
+  if (body.type === 'ordered_field_declaration_list') return `(${entries.join(', ')})`;
+  return entries.length > 0 ? ` { ${entries.join(', ')} }` : ' {}';
+}
+
+/**
+ * Render a named field or enum variant without its attributes and comments
+ */
+function entryText(node: any): string {
+  const parts: string[] = [];
+  for (let i = 0; i < node.childCount; i++) {
+    const child = node.child(i);
+    if (child.type === 'attribute_item' || child.type.endsWith('comment')) continue;
+    if (child.type === 'field_declaration_list' || child.type === 'ordered_field_declaration_list') {
+      parts.push(bodyText(child));
+    } else {
+      parts.push((child.type === ':' || child.type === ',' ? '' : ' ') + child.text);
+    }
+  }
+  return normalizeType(parts.join(''));
+}
+
+/**
+ * Extract the methods and associated constants of a trait. Methods with a default body are included.
+ */
+function extractTraitMembers(body: any): InterfaceMember[] {
+  const members: InterfaceMember[] = [];
+  if (!body) return members;
+
+  for (let i = 0; i < body.namedChildCount; i++) {
+    const child = body.namedChild(i);
+
+    if (child.type === 'function_signature_item' || child.type === 'function_item') {
+      const returnTypeNode = child.childForFieldName('return_type');
+      members.push({
+        name: child.childForFieldName('name').text,
+        kind: 'method',
+        lineNo: child.startPosition.row + 1,
+        optional: false,
+        typeParameters: extractTypeParameters(child),
+        parameters: extractParameters(child.childForFieldName('parameters')).parameters,
+        returnType: returnTypeNode ? returnTypeNode.text : undefined,
+        doc: getDocComment(child)
+      });
+    } else if (child.type === 'const_item') {
+      const typeNode = child.childForFieldName('type');
+      members.push({
+        name: child.childForFieldName('name').text,
+        kind: 'property',
+        lineNo: child.startPosition.row + 1,
+        optional: false,
+        type: typeNode ? typeNode.text : undefined,
+        doc: getDocComment(child)
+      });
+    }
+  }
+
+  return members;
+}
+
+/**
+ * Extract parameters. The `self` receiver is left out and reported separately; `mut` is dropped
+ * from names, and C variadics are named `...`.
+ */
+function extractParameters(parametersNode: any): { parameters: ParameterInfo[], hasReceiver: boolean } {
+  const parameters: ParameterInfo[] = [];
+  let hasReceiver = false;
+  if (!parametersNode) return { parameters, hasReceiver };
+
+  for (let i = 0; i < parametersNode.namedChildCount; i++) {
+    const param = parametersNode.namedChild(i);
+
+    if (param.type === 'self_parameter') {
+      hasReceiver = true;
+    } else if (param.type === 'parameter') {
+      const pattern = param.childForFieldName('pattern');
+      const typeNode = param.childForFieldName('type');
+      // `self: Box<Self>` is a receiver too
+      if (pattern && pattern.type === 'self') {
+        hasReceiver = true;
+        continue;
+      }
+      parameters.push({ name: pattern ? pattern.text : '_', type: typeNode ? typeNode.text : '', optional: false });
+    } else if (param.type === 'variadic_parameter') {
+      parameters.push({ name: '...', type: '', optional: false });
+    }
+  }
+
+  return { parameters, hasReceiver };
+}
+
+/**
+ * Render a signature in Rust syntax, e.g. `parse<'a, T: FromStr>(input: &'a str) -> Result<T, Error>`.
+ * `where` bounds are rendered with the type parameters they were merged into.
+ */
+function formatRustSignature(name: string, func: CallSignature): string {
+  const typeParameters = func.typeParameters.length > 0
+    ? `<${func.typeParameters.map(param =>
+      param.name +
+      (param.constraint ? `: ${normalizeType(param.constraint)}` : '') +
+      (param.default ? ` = ${normalizeType(param.default)}` : '')
+    ).join(', ')}>`
+    : '';
+  // C variadics are named `...` and have no type
+  const parameters = func.parameters.map(param => (param.type ? `${param.name}: ${normalizeType(param.type)}` : param.name));
+  const returnType = func.returnType ? ` -> ${normalizeType(func.returnType)}` : '';
+  return `${name}${typeParameters}(${parameters.join(', ')})${returnType}`;
+}
+
+/**
+ * Extract lifetime, type and const parameters, e.g. `<'a, T: Clone = i32, const N: usize>`.
+ * Bounds from the `where` clause are added to the constraint of the parameter they apply to.
+ */
+function extractTypeParameters(node: any): TypeParameterInfo[] {
+  const typeParameters: TypeParameterInfo[] = [];
+  const typeParametersNode = node.childForFieldName('type_parameters');
+  if (!typeParametersNode) return typeParameters;
+
+  for (let i = 0; i < typeParametersNode.namedChildCount; i++) {
+    const param = typeParametersNode.namedChild(i);
+    const nameNode = param.childForFieldName('name');
+    if (!nameNode) continue;
+
+    if (param.type === 'const_parameter') {
+      typeParameters.push({ name: `const ${nameNode.text}`, constraint: param.childForFieldName('type').text });
+      continue;
+    }
+
+    const boundsNode = param.childForFieldName('bounds');
+    const defaultNode = param.childForFieldName('default_type');
+    typeParameters.push({
+      name: nameNode.text,
+      ...(boundsNode ? { constraint: boundsText(boundsNode) } : {}),
+      ...(defaultNode ? { default: defaultNode.text } : {})
+    });
+  }
+
+  const whereClause = node.namedChildren.find((child: any) => child.type === 'where_clause');
+  for (let i = 0; whereClause && i < whereClause.namedChildCount; i++) {
+    const predicate = whereClause.namedChild(i);
+    const left = predicate.childForFieldName('left');
+    const bounds = predicate.childForFieldName('bounds');
+    const param = left && bounds ? typeParameters.find(candidate => candidate.name === left.text) : undefined;
+    if (param) {
+      param.constraint = param.constraint ? `${param.constraint} + ${boundsText(bounds)}` : boundsText(bounds);
+    }
+  }
+
+  return typeParameters;
+}
+
+/**
+ * Get the text of trait bounds without the leading colon, e.g. `Clone + Send`
+ */
+function boundsText(boundsNode: any): string {
+  return boundsNode.text.replace(/^:\s*/, '');
+}
+
+/**
+ * Parse the outer doc comments (`///` and `/** *\/`) above an item, skipping its attributes.
+ * `# Examples` sections become examples, and other `#` sections (`# Errors`, `# Panics`,
+ * `# Safety`) become tags; examples lose their code fences. A `#[deprecated]` attribute fills in the deprecation notice.
+ */
+function getDocComment(node: any): DocComment | undefined {
+  const lines: string[] = [];
+  let deprecated: string | undefined;
+
+  for (let sibling = node.previousNamedSibling; sibling; sibling = sibling.previousNamedSibling) {
+    if (sibling.type === 'attribute_item') {
+      const note = getDeprecationNote(sibling);
+      if (note !== undefined) deprecated = note;
+      continue;
+    }
+    const docNode = (sibling.type === 'line_comment' || sibling.type === 'block_comment') && sibling.childForFieldName('outer')
+      ? sibling.childForFieldName('doc')
+      : null;
+    if (!docNode) break;
+
+    const text = sibling.type === 'line_comment'
+      ? [docNode.text.replace(/^ /, '').replace(/\r?\n$/, '')]
+      : docNode.text.split('\n').map((line: string) => line.replace(/^\s*\*? ?/, '').trimEnd());
+    lines.unshift(...text);
+  }
+  if (lines.length === 0 && deprecated === undefined) return undefined;
+
+  const doc: DocComment = { summary: '', params: [], typeParams: [], throws: [], examples: [], see: [], tags: [] };
+  const summary: string[] = [];
+  let section: { name: string, lines: string[] } | undefined;
+  const sections: { name: string, lines: string[] }[] = [];
+
+  let inCode = false;
+  for (const line of lines) {
+    if (/^\s*```/.test(line)) inCode = !inCode;
+    const heading = !inCode ? /^#\s+(.+)$/.exec(line) : null;
+    if (heading) {
+      section = { name: heading[1].trim(), lines: [] };
+      sections.push(section);
+    } else if (section) {
+      section.lines.push(line);
+    } else {
+      summary.push(line);
+    }
+  }
+
+  doc.summary = summary.join('\n').trim();
+  for (const { name, lines: sectionLines } of sections) {
+    const text = sectionLines.join('\n').trim();
+    if (/^examples?$/i.test(name)) {
+      // The code fences are markup rather than part of the example
+      doc.examples.push(text.split('\n').filter(line => !/^\s*```/.test(line)).join('\n').trim());
+    } else {
+      doc.tags.push({ tag: name.toLowerCase(), text });
+    }
+  }
+  if (deprecated !== undefined) {
+    doc.deprecated = { description: deprecated };
+  }
+
+  return doc;
+}
+
+/**
+ * Get the note of a `#[deprecated]` attribute: `#[deprecated = "..."]` or `#[deprecated(note = "...")]`.
+ * Returns undefined for other attributes, and an empty string when there is no note.
+ */
+function getDeprecationNote(attributeItem: any): string | undefined {
+  const match = /^#\[\s*deprecated\b([\s\S]*)\]$/.exec(attributeItem.text);
+  if (!match) return undefined;
+
+  const note = /(?:^\s*=|\bnote\s*=)\s*"((?:[^"\\]|\\.)*)"/.exec(match[1]);
+  return note ? note[1].replace(/\\(.)/g, '$1') : '';
+}
@@ -0,0 +1,68 @@
+import type { ParameterInfo, TypeParameterInfo } from './types';
+
+/**
+ * The parts of a declaration that make up its call signature
+ */
+export interface CallSignature {
+  typeParameters: TypeParameterInfo[];
+  parameters: ParameterInfo[];
+  returnType?: string;
+}
+
+/**
+ * Render the canonical signature of a JavaScript or TypeScript function, e.g.
+ * `merge<T>(target: T, ...sources?: Partial<T>[]): T`. Other languages render signatures in
+ * their own syntax. Whitespace inside types is collapsed, so formatting of the source does
+ * not affect the result.
+ * @param name Name to render the signature under
+ * @param func Type parameters, parameters and return type of the function
+ */
+export function formatSignature(name: string, func: CallSignature): string {
+  const returnType = func.returnType ? `: ${normalizeType(func.returnType)}` : '';
+  return `${name}${formatTypeParameters(func.typeParameters)}(${formatParameters(func.parameters)})${returnType}`;
+}
+
+/**
+ * Render a parameter list without parentheses, e.g. `a: number, b?: string`
+ * @param parameters Parameters to render
+ */
+export function formatParameters(parameters: ParameterInfo[]): string {
+  return parameters
+    .map(param => `${collapseWhitespace(param.name)}${param.optional ? '?' : ''}${param.type ? `: ${normalizeType(param.type)}` : ''}`)
+    .join(', ');
+}
+
+/**
+ * Render type parameters with their brackets, e.g. `<T extends object = {}>`, or nothing if there are none
+ * @param typeParameters Type parameters to render
+ */
+export function formatTypeParameters(typeParameters: TypeParameterInfo[]): string {
+  if (typeParameters.length === 0) return '';
+
+  const rendered = typeParameters.map(param =>
+    param.name +
+    (param.constraint ? ` extends ${normalizeType(param.constraint)}` : '') +
+    (param.default ? ` = ${normalizeType(param.default)}` : '')
+  );
+  return `<${rendered.join(', ')}>`;
+}
+
+/**
+ * Normalize the spelling of a type: whitespace is collapsed, and dropped inside brackets,
+ * so `Array<\n  Partial<T>\n>` becomes `Array<Partial<T>>`
+ * @param type Type as written in the source
+ */
+export function normalizeType(type: string): string {
+  return collapseWhitespace(type)
+    .replace(/([<([]) /g, '$1')
+    // `=>` never has a space before its `>`, so this only touches closing brackets
+    .replace(/ ([>)\]])/g, '$1');
+}
+
+/**
+ * Replace runs of whitespace with a single space
+ * @param text Text to collapse
+ */
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
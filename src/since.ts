@@ -0,0 +1,56 @@
+import { CodeParser } from './parser';
+import { DeclarationCache } from './cache';
+import { GitRevisionSource } from './file-source';
+import { diffFileDeclarations } from './diff';
+import { consoleLogger } from './logger';
+import type { DeclarationChange, FileDeclaration, ParserOptions } from './types';
+
+/**
+ * Parse only the files that differ between a git revision and the working tree,
+ * and report the declarations that were added, removed or changed in them
+ * @param options Parser options
+ * @param revision Revision to compare the working tree against
+ * @returns The changes of each file, in sorted file order
+ */
+export async function diffSinceRevision(options: ParserOptions, revision: string): Promise<DeclarationChange[]> {
+  const source = new GitRevisionSource(options.directory, revision);
+  const candidates = new Set(source.changedFiles(options.directory));
+  if (candidates.size === 0) return [];
+
+  const logger = options.logger || consoleLogger;
+  const current = new CodeParser(undefined, logger);
+  const previous = new CodeParser(source, logger);
+
+  if (!options.fileExtensions || options.fileExtensions.length === 0) {
+    options.fileExtensions = await current.detectFileExtensions(options.directory, options);
+    logger.info(`Detected file extensions: ${options.fileExtensions.join(', ')}`);
+  }
+
+  // Walk both trees so ignore files and include/exclude globs apply as usual,
+  // but only keep the changed files
+  // The directory itself may not exist yet in the revision
+  const previousFiles = new Set(source.stat(options.directory)
+    ? previous.findFiles(options.directory, options.fileExtensions, options, candidates)
+    : []);
+  const currentFiles = new Set(current.findFiles(options.directory, options.fileExtensions, options, candidates));
+
+  // The cache holds one entry per path, so only the working tree side uses it
+  const cache = options.cacheDir ? new DeclarationCache(options.cacheDir, logger) : undefined;
+  const changes: DeclarationChange[] = [];
+
+  for (const file of candidates) {
+    let before: FileDeclaration | undefined;
+    let after: FileDeclaration | undefined;
+
+    if (previousFiles.has(file)) {
+      before = await previous.parseFile(file);
+    }
+    if (currentFiles.has(file)) {
+      after = await current.parseFile(file, cache);
+    }
+
+    changes.push(...diffFileDeclarations(before, after));
+  }
+
+  return changes;
+}
@@ -5,22 +5,112 @@ export interface FileDeclaration {
   functions: FunctionDeclaration[];
   /** Classes defined in this file */
   classes: ClassDeclaration[];
+  /** Interfaces defined in this file */
+  interfaces: InterfaceDeclaration[];
+  /** Type aliases defined in this file */
+  typeAliases: TypeAliasDeclaration[];
+  /** Enums defined in this file */
+  enums: EnumDeclaration[];
+  /** Why the file could not be parsed, in which case it has no declarations */
+  error?: string;
+}
+
+/**
+ * Export status of a declaration within its module
+ */
+export interface ExportInfo {
+  /** Whether the declaration is part of the module's public surface (always false for class members) */
+  exported: boolean;
+  /** Whether the declaration is the module's default export */
+  defaultExport: boolean;
+  /** Whether the declaration is exported through a separate export list (`export { name }`, `module.exports = { name }`) rather than at its definition */
+  reExported: boolean;
+  /** Restricted Rust visibility as written, e.g. `pub(crate)` (if any) */
+  visibility?: string;
+}
+
+/**
+ * A position in a source file
+ */
+export interface SourcePosition {
+  /** Line number (1-based) */
+  line: number;
+  /** Column (0-based), in UTF-16 code units as editors count them */
+  column: number;
+  /** Byte offset from the start of the UTF-8 encoded file */
+  offset: number;
+}
+
+/**
+ * A span of source text (the end position is exclusive)
+ */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * Source ranges of a declaration
+ */
+export interface SourceLocation {
+  /** Range of the whole declaration, excluding a leading `export` keyword */
+  range: SourceRange;
+  /** Range of the name identifier (if any) */
+  nameRange?: SourceRange;
+  /** Range of the function, class, interface or enum body, or of the aliased type (if any) */
+  bodyRange?: SourceRange;
+}
+
+/**
+ * Modifiers of a function or class member
+ */
+export interface FunctionModifiers {
+  /** Kind of callable: plain function, class method, constructor or accessor */
+  kind: 'function' | 'method' | 'constructor' | 'getter' | 'setter';
+  /** Whether the function is declared async */
+  async: boolean;
+  /** Whether the function is a generator (function*) */
+  generator: boolean;
+  /** Whether the member is static */
+  static: boolean;
+  /** Whether the member is abstract */
+  abstract: boolean;
+  /** Whether the member is readonly (function-valued class fields) */
+  readonly: boolean;
+  /** Declared access level of a class member (if any) */
+  accessibility?: 'public' | 'private' | 'protected';
 }
 
 /**
  * Represents a function declaration found in the codebase
  */
-export interface FunctionDeclaration {
-  /** Unique identifier for the function */
-  id: number;
+export interface FunctionDeclaration extends ExportInfo, FunctionModifiers, SourceLocation {
+  /** Stable identifier of the function, e.g. `src/math.ts#add` or `src/user.ts#UserManager.addUser` for methods */
+  id: string;
   /** The name of the function */
   functionName: string;
   /** Line number where the function is defined */
   lineNo: number;
+  /** Generic type parameters of the function */
+  typeParameters: TypeParameterInfo[];
   /** Function parameters with their types (if available) */
   parameters: ParameterInfo[];
   /** Return type of the function (if available) */
   returnType?: string;
+  /**
+   * Canonical signature in the syntax of the source language, with whitespace collapsed, e.g.
+   * `add<T>(a: T, b?: T, ...rest: T[]): T`, Python `add[T](a: T, b: T = 0) -> T`,
+   * Go `Add[T any](a T, rest ...T) T` or Rust `add<T: Copy>(a: T, b: T) -> T`
+   */
+  signature: string;
+  /** Set on the call signature of a function-type alias, which is listed under typeAliases as well */
+  typeAlias?: boolean;
+  /** Python decorators as written, without the `@` (if any) */
+  decorators?: string[];
+  /** Rust qualifiers other than `async`, as written, e.g. `const`, `unsafe` or `extern "C"` (if any) */
+  qualifiers?: string[];
+  /** Documentation comment (if any) */
+  doc?: DocComment;
 }
 
 /**
@@ -33,30 +123,377 @@ export interface ParameterInfo {
   type: string;
   /** Whether parameter is optional */
   optional: boolean;
+  /** Default value as written (if any) */
+  defaultValue?: string;
+  /** Whether the parameter collects the remaining arguments, e.g. `...rest` or `*args` (omitted if not) */
+  variadic?: boolean;
+  /** Declared access level of a constructor parameter property (if any) */
+  accessibility?: 'public' | 'private' | 'protected';
+  /** Whether a constructor parameter property is readonly (omitted if not) */
+  readonly?: boolean;
+}
+
+/**
+ * Information about a generic type parameter
+ */
+export interface TypeParameterInfo {
+  /** Type parameter name */
+  name: string;
+  /** Constraint from the `extends` clause (if any) */
+  constraint?: string;
+  /** Default type (if any) */
+  default?: string;
 }
 
 /**
  * Represents a class declaration found in the codebase
  */
-export interface ClassDeclaration {
-  /** Unique identifier for the class */
-  id: number;
+export interface ClassDeclaration extends ExportInfo, SourceLocation {
+  /** Stable identifier of the class, e.g. `src/user.ts#UserManager` */
+  id: string;
   /** The name of the class */
   className: string;
   /** Line number where the class is defined */
   lineNo: number;
-  /** Class signature including extends/implements */
+  /** Generic type parameters of the class */
+  typeParameters: TypeParameterInfo[];
+  /** Class header with whitespace collapsed, e.g. `abstract class Repo<T> extends Base<T> implements Store` */
   signature: string;
+  /** Whether the class is declared abstract */
+  abstract: boolean;
   /** Methods defined in this class */
   methods: FunctionDeclaration[];
+  /** Python decorators as written, without the `@` (if any) */
+  decorators?: string[];
+  /** Documentation comment (if any) */
+  doc?: DocComment;
+}
+
+/**
+ * Represents an interface declaration found in the codebase
+ */
+export interface InterfaceDeclaration extends ExportInfo, SourceLocation {
+  /** Stable identifier of the interface, e.g. `src/types.ts#User` */
+  id: string;
+  /** The name of the interface */
+  interfaceName: string;
+  /** Line number where the interface is defined */
+  lineNo: number;
+  /** Generic type parameters of the interface */
+  typeParameters: TypeParameterInfo[];
+  /** Interfaces it extends, as written, e.g. `Base<T>` (if any) */
+  extends?: string[];
+  /** Property, method, call, construct and index signature members of the interface */
+  members: InterfaceMember[];
+  /** Documentation comment (if any) */
+  doc?: DocComment;
+}
+
+/**
+ * A member of an interface
+ */
+export interface InterfaceMember {
+  /**
+   * Member name. Call signatures are named `()`, construct signatures `new()`,
+   * and index signatures after their key, e.g. `[key: string]`.
+   */
+  name: string;
+  /** Whether the member is a property, a method, a call or construct signature, or an index signature */
+  kind: 'property' | 'method' | 'call' | 'construct' | 'index';
+  /** Line number where the member is defined */
+  lineNo: number;
+  /** Whether member is optional */
+  optional: boolean;
+  /** Whether a property or index signature is readonly (omitted if not) */
+  readonly?: boolean;
+  /** Property or index signature value type */
+  type?: string;
+  /** Generic type parameters (methods and call or construct signatures) */
+  typeParameters?: TypeParameterInfo[];
+  /** Parameters (methods and call or construct signatures) */
+  parameters?: ParameterInfo[];
+  /** Return type (methods and call or construct signatures, if available) */
+  returnType?: string;
+  /** Documentation comment (if any) */
+  doc?: DocComment;
+}
+
+/**
+ * Represents a type alias declaration found in the codebase
+ */
+export interface TypeAliasDeclaration extends ExportInfo, SourceLocation {
+  /** Stable identifier of the type alias, e.g. `src/types.ts#UserId` */
+  id: string;
+  /** The name of the type alias */
+  aliasName: string;
+  /** Line number where the type alias is defined */
+  lineNo: number;
+  /** Generic type parameters of the type alias */
+  typeParameters: TypeParameterInfo[];
+  /** Source text of the aliased type */
+  type: string;
+  /** Documentation comment (if any) */
+  doc?: DocComment;
+}
+
+/**
+ * Represents an enum declaration found in the codebase
+ */
+export interface EnumDeclaration extends ExportInfo, SourceLocation {
+  /** Stable identifier of the enum, e.g. `src/types.ts#Role` */
+  id: string;
+  /** The name of the enum */
+  enumName: string;
+  /** Line number where the enum is defined */
+  lineNo: number;
+  /** Members of the enum in declaration order */
+  members: EnumMember[];
+  /** Documentation comment (if any) */
+  doc?: DocComment;
+}
+
+/**
+ * A single enum member
+ */
+export interface EnumMember {
+  /** Member name */
+  name: string;
+  /** Initializer source text (if any) */
+  value?: string;
+}
+
+/**
+ * Structured JSDoc/TSDoc documentation attached to a declaration
+ */
+export interface DocComment {
+  /** Summary text before the first tag */
+  summary: string;
+  /** @param descriptions in declaration order */
+  params: DocParam[];
+  /** @template descriptions */
+  typeParams: DocParam[];
+  /** @returns description (if any) */
+  returns?: DocTypedDescription;
+  /** @throws descriptions */
+  throws: DocTypedDescription[];
+  /** @example blocks, with their original line breaks */
+  examples: string[];
+  /** @deprecated notice (if any) */
+  deprecated?: { description: string };
+  /** @since version (if any) */
+  since?: string;
+  /** @see references */
+  see: string[];
+  /** Any other tags, in order of appearance */
+  tags: DocTag[];
+}
+
+/**
+ * A documented parameter or type parameter
+ */
+export interface DocParam {
+  /** Parameter name */
+  name: string;
+  /** Type from the `{type}` expression (if any) */
+  type?: string;
+  /** Parameter description */
+  description: string;
+  /** Whether the parameter is documented as optional (`[name]` or `{type=}`) */
+  optional: boolean;
+  /** Default value from `[name=value]` (if any) */
+  defaultValue?: string;
+}
+
+/**
+ * A tag description with an optional `{type}` expression, used for @returns and @throws
+ */
+export interface DocTypedDescription {
+  /** Type from the `{type}` expression (if any) */
+  type?: string;
+  /** Tag description */
+  description: string;
+}
+
+/**
+ * A doc tag without dedicated handling
+ */
+export interface DocTag {
+  /** Tag name without the '@' */
+  tag: string;
+  /** Tag text */
+  text: string;
+}
+
+/**
+ * Kind of a declaration, as used in change reports
+ */
+export type DeclarationKind = 'function' | 'class' | 'method' | 'interface' | 'typeAlias' | 'enum';
+
+/**
+ * A declaration that was added, removed or whose signature changed between two parses of a file
+ */
+export interface DeclarationChange {
+  /** What happened to the declaration */
+  change: 'added' | 'removed' | 'changed';
+  /** Kind of declaration */
+  kind: DeclarationKind;
+  /** Declaration name, qualified with the class name for methods (e.g. `UserManager.addUser`) */
+  name: string;
+  /** Path to the file containing the declaration */
+  fileName: string;
+  /** Line number of the declaration (in the new version, or the old one if removed) */
+  lineNo: number;
+}
+
+/**
+ * Canonical report of the exported API surface of a directory
+ */
+export interface ApiReport {
+  /** Format version of the report */
+  reportVersion: number;
+  /** Exported declarations and their public members, sorted by id */
+  entries: ApiReportEntry[];
+}
+
+/**
+ * One exported declaration or public member in an API report
+ */
+export interface ApiReportEntry {
+  /** Relative file path plus qualified name, e.g. `src/user.ts#UserManager.addUser` */
+  id: string;
+  /** Kind of entry */
+  kind: DeclarationKind | 'property' | 'enumMember';
+  /** Modifiers that affect callers (default, async, static, abstract, getter, ...) */
+  modifiers?: string[];
+  /** Generic type parameters */
+  typeParameters?: TypeParameterInfo[];
+  /** Parameters of functions and methods */
+  parameters?: ParameterInfo[];
+  /** Return type of functions and methods */
+  returnType?: string;
+  /** Type of properties, aliased type of type aliases, or signature of classes */
+  type?: string;
+  /** Whether a property is optional */
+  optional?: boolean;
+  /** Initializer of enum members */
+  value?: string;
+}
+
+/**
+ * A classified difference between two API reports
+ */
+export interface ApiChange {
+  /** Entry id */
+  id: string;
+  /** Breaking changes can break existing consumers; additive ones cannot */
+  severity: 'breaking' | 'additive';
+  /** Human-readable description of the change */
+  description: string;
+}
+
+/**
+ * Options controlling which files are visited when searching a directory
+ */
+export interface FileFilterOptions {
+  /** Glob patterns (gitignore syntax, relative to the directory) a file must match to be parsed */
+  include?: string[];
+  /** Glob patterns (gitignore syntax, relative to the directory) of files and directories to skip */
+  exclude?: string[];
+  /** Whether to honor .gitignore and .funsigignore files and skip node_modules (default: true) */
+  useIgnoreFiles?: boolean;
+  /** Whether to follow symbolic links; directories already visited are skipped (default: false) */
+  followSymlinks?: boolean;
+  /** Maximum size in bytes of a file to parse (default: 1 MiB) */
+  maxFileSize?: number;
+  /** Whether to parse files that look minified (default: false) */
+  includeMinified?: boolean;
+}
+
+/**
+ * Receives the status messages, warnings and errors of parsing
+ */
+export interface Logger {
+  /** Progress and status, e.g. the detected file extensions */
+  info(message: string, ...args: unknown[]): void;
+  /** Files that were skipped or could not be fully handled */
+  warn(message: string, ...args: unknown[]): void;
+  /** Files and directories that could not be parsed */
+  error(message: string, ...args: unknown[]): void;
 }
 
 /**
  * Configuration options for the parser
  */
-export interface ParserOptions {
+export interface ParserOptions extends FileFilterOptions {
   /** Directory to search for files */
   directory: string;
   /** File extensions to include (optional, will be auto-detected if not provided) */
   fileExtensions?: string[];
+  /** Directory of the on-disk parse cache (optional, caching is disabled if not provided) */
+  cacheDir?: string;
+  /** Number of worker threads to parse files on (default: 1, parse on the calling thread) */
+  concurrency?: number;
+  /**
+   * Git revision to read files from instead of the working tree (optional).
+   * Applied by the exported parseDirectory(); a CodeParser reads from the FileSource it was created with.
+   */
+  rev?: string;
+  /**
+   * Where messages go (default: the console; pass `silentLogger` for none).
+   * Applied by the exported functions; a CodeParser logs to the logger it was created with.
+   */
+  logger?: Logger;
+}
+
+/**
+ * Options for parsing source code held in memory: the language to parse as, a file name
+ * to infer it from, or both
+ */
+export interface SourceOptions {
+  /** Name of a registered language, e.g. `typescript` or `python` */
+  language?: string;
+  /** File name the declarations are reported and identified under; its extension picks the language when none is given */
+  fileName?: string;
+  /** Where errors go (default: the console; pass `silentLogger` for none) */
+  logger?: Logger;
+}
+
+/**
+ * Options recorded in the output envelope: the parser options other than the directory, the logger
+ * and the concurrency, which depends on the machine and does not change the output
+ */
+export type OutputOptions = Omit<ParserOptions, 'directory' | 'logger' | 'concurrency'>;
+
+/**
+ * A file that could not be parsed
+ */
+export interface FileError {
+  /** Path to the file */
+  fileName: string;
+  /** Error message */
+  message: string;
+}
+
+/**
+ * Versioned wrapper around the JSON output, describing the run that produced it
+ */
+export interface OutputEnvelope {
+  /** Format version of the envelope and the declarations in it */
+  schemaVersion: number;
+  /** Version of funsig that produced the output */
+  toolVersion: string;
+  /** Directory that was parsed, as given; file names start with it */
+  rootDirectory: string;
+  /** Options the directory was parsed with */
+  options: OutputOptions;
+  /** Number of files parsed, including those that failed */
+  fileCount: number;
+  /** When parsing started, as an ISO 8601 timestamp */
+  startedAt: string;
+  /** Time taken to parse, in milliseconds */
+  durationMs: number;
+  /** Files that could not be parsed */
+  errors: FileError[];
+  /** Declarations of each file */
+  files: FileDeclaration[];
 }
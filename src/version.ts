@@ -0,0 +1,4 @@
+/**
+ * The funsig package version, read from package.json
+ */
+export const VERSION: string = require('../package.json').version;
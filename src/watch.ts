@@ -0,0 +1,117 @@
+import fs from 'fs';
+import { CodeParser } from './parser';
+import { DeclarationCache } from './cache';
+import { diffFileDeclarations } from './diff';
+import { consoleLogger } from './logger';
+import type { FileDeclaration, DeclarationChange, ParserOptions } from './types';
+
+/**
+ * A running directory watcher
+ */
+export interface DirectoryWatcher {
+  /** Declarations from the initial full parse */
+  initial: FileDeclaration[];
+  /** Stop watching */
+  close(): void;
+}
+
+/**
+ * Parse a directory, then keep re-parsing changed, added and deleted files as they are edited
+ * @param options Parser options
+ * @param onChanges Called with the declaration changes of each batch of file system events
+ * @param debounceMs Quiet period to wait for after a file system event before re-scanning
+ */
+export async function watchDirectory(
+  options: ParserOptions,
+  onChanges: (changes: DeclarationChange[]) => void,
+  debounceMs: number = 100
+): Promise<DirectoryWatcher> {
+  const logger = options.logger || consoleLogger;
+  const parser = new CodeParser(undefined, logger);
+  const cache = options.cacheDir ? new DeclarationCache(options.cacheDir, logger) : undefined;
+
+  // Initial full pass; this also fills in options.fileExtensions when they are auto-detected
+  const initial = await parser.parseDirectory(options);
+
+  // Last known modification time and declarations of every watched file
+  const state = new Map<string, { mtimeMs: number, declaration: FileDeclaration }>();
+  for (const declaration of initial) {
+    state.set(declaration.fileName, { mtimeMs: getModifiedTime(declaration.fileName), declaration });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let scanning = false;
+  let rescanRequested = false;
+
+  // Compare the current file list and modification times against the known state.
+  // Re-walking is cheap next to parsing, and it sees renames and atomic saves that
+  // a single file system event may not describe accurately.
+  const rescan = async () => {
+    if (scanning) {
+      rescanRequested = true;
+      return;
+    }
+    scanning = true;
+
+    try {
+      const changes: DeclarationChange[] = [];
+      const files = parser.findFiles(options.directory, options.fileExtensions || [], options);
+      const present = new Set(files);
+
+      for (const file of files) {
+        const mtimeMs = getModifiedTime(file);
+        const previous = state.get(file);
+        if (previous && previous.mtimeMs === mtimeMs) continue;
+
+        const declaration = await parser.parseFile(file, cache);
+        changes.push(...diffFileDeclarations(previous ? previous.declaration : undefined, declaration));
+        state.set(file, { mtimeMs, declaration });
+      }
+
+      for (const [file, previous] of state) {
+        if (!present.has(file)) {
+          changes.push(...diffFileDeclarations(previous.declaration, undefined));
+          state.delete(file);
+        }
+      }
+
+      if (changes.length > 0) {
+        onChanges(changes);
+      }
+    } catch (error) {
+      logger.error('Error while re-scanning directory:', error);
+    } finally {
+      scanning = false;
+      if (rescanRequested) {
+        rescanRequested = false;
+        schedule();
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(rescan, debounceMs);
+  };
+
+  const watcher = fs.watch(options.directory, { recursive: true }, schedule);
+
+  return {
+    initial,
+    close: () => {
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    }
+  };
+}
+
+/**
+ * Get the modification time of a file, or -1 if it no longer exists
+ */
+function getModifiedTime(filePath: string): number {
+  try {
+    return fs.statSync(filePath).mtimeMs;
+  } catch {
+    return -1;
+  }
+}
@@ -0,0 +1,171 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import type { FileDeclaration, Logger } from './types';
+import { getLanguageModules } from './languages';
+import { consoleLogger } from './logger';
+
+/**
+ * A file sent to a worker for parsing
+ */
+export interface ParseTask {
+  /** Position of the file in the input list */
+  index: number;
+  /** Path to the file */
+  filePath: string;
+  /** Content of the file, when the worker cannot read it from the file system itself */
+  fileContent?: string;
+}
+
+/**
+ * A message a worker logged, formatted into a string since loggers cannot be sent to workers
+ */
+export interface LogEntry {
+  level: keyof Logger;
+  message: string;
+}
+
+/**
+ * The declarations a worker extracted from a file
+ */
+export interface ParseResult {
+  /** Position of the file in the input list */
+  index: number;
+  /** Extracted declarations */
+  declaration: FileDeclaration;
+  /** Messages logged while parsing the file */
+  logs: LogEntry[];
+}
+
+/**
+ * Parse files on a pool of worker threads, yielding the declarations of each file as soon as
+ * it and the files before it are done. Workers pause while the consumer falls behind,
+ * so only a few results are held at a time. Stopping the iteration terminates the workers,
+ * and a worker that exits on its own fails the iteration.
+ * Workers load the same language adapter modules as the calling thread.
+ * @param files Paths of the files to parse
+ * @param concurrency Number of worker threads to start (capped at the number of files)
+ * @param cacheDir Directory of the on-disk parse cache (optional)
+ * @param readFile Reads file content on the main thread for the workers (default: workers read from the file system)
+ * @param logger Where the messages workers log are passed on to (default: the console)
+ */
+export async function* streamFilesInWorkers(
+  files: string[],
+  concurrency: number,
+  cacheDir?: string,
+  readFile?: (filePath: string) => string,
+  logger: Logger = consoleLogger
+): AsyncGenerator<FileDeclaration> {
+  const workerCount = Math.min(concurrency, files.length);
+  if (workerCount === 0) return;
+
+  // The worker script sits next to this module, compiled or not
+  const workerPath = path.join(__dirname, `parse-worker${path.extname(__filename)}`);
+
+  // Results that arrived ahead of the file being waited for, by position
+  const finished = new Map<number, FileDeclaration>();
+  const maxFinished = workerCount * 2;
+
+  const workers: Worker[] = [];
+  // The task each busy worker is parsing
+  const busy = new Map<Worker, ParseTask>();
+  const paused: Worker[] = [];
+  let stopped = false;
+  let nextIndex = 0;
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+
+  const notify = () => {
+    const resume = wake;
+    wake = undefined;
+    if (resume) resume();
+  };
+
+  const fail = (error: unknown) => {
+    if (failure) return;
+    failure = { error };
+    notify();
+  };
+
+  // Hand out files one at a time so fast workers pick up more of them
+  const dispatch = (worker: Worker) => {
+    if (stopped || failure || nextIndex >= files.length) return;
+    if (finished.size >= maxFinished) {
+      paused.push(worker);
+      return;
+    }
+
+    const task: ParseTask = { index: nextIndex, filePath: files[nextIndex] };
+    nextIndex++;
+
+    if (readFile) {
+      try {
+        task.fileContent = readFile(task.filePath);
+      } catch (error) {
+        fail(error);
+        return;
+      }
+    }
+    busy.set(worker, task);
+    worker.postMessage(task);
+  };
+
+  try {
+    for (let i = 0; i < workerCount; i++) {
+      const worker = new Worker(workerPath, { workerData: { cacheDir, languageModules: getLanguageModules() } });
+      workers.push(worker);
+
+      worker.on('message', (result: ParseResult) => {
+        busy.delete(worker);
+        if (stopped) {
+          worker.terminate();
+          return;
+        }
+        for (const entry of result.logs) {
+          logger[entry.level](entry.message);
+        }
+        finished.set(result.index, result.declaration);
+        notify();
+        dispatch(worker);
+      });
+
+      worker.on('error', error => {
+        busy.delete(worker);
+        fail(error);
+      });
+
+      // Without this, the file of a worker that exits mid-task would be waited for forever
+      worker.on('exit', code => {
+        if (stopped) return;
+        const task = busy.get(worker);
+        busy.delete(worker);
+        fail(new Error(`Parse worker exited with code ${code}${task ? ` while parsing ${task.filePath}` : ''}`));
+      });
+
+      dispatch(worker);
+    }
+
+    for (let index = 0; index < files.length; index++) {
+      while (!finished.has(index) && !failure) {
+        await new Promise<void>(resolve => { wake = resolve; });
+      }
+      if (failure) throw failure.error;
+
+      const declaration = finished.get(index)!;
+      finished.delete(index);
+      while (paused.length > 0 && finished.size < maxFinished) {
+        dispatch(paused.pop()!);
+      }
+
+      yield declaration;
+    }
+  } finally {
+    // Busy workers finish their file first: terminating a worker that is still
+    // loading the native parser can bring down the whole process
+    stopped = true;
+    for (const worker of workers) {
+      if (!busy.has(worker)) {
+        worker.terminate();
+      }
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { CodeParser } from '../src/parser';
+import { buildApiReport, compareApiReports, formatApiReport } from '../src/api-report';
+import type { ApiReport } from '../src/types';
+
+describe('API report', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-api-report-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  // Write the source to a single file and build the report of the directory
+  const reportFor = async (source: string, fileName = 'api.ts'): Promise<ApiReport> => {
+    fs.writeFileSync(path.join(root, fileName), source);
+    const files = await new CodeParser().parseDirectory({ directory: root, fileExtensions: [path.extname(fileName)] });
+    return buildApiReport(files, root);
+  };
+
+  test('includes only the exported surface, sorted by id', async () => {
+    const report = await reportFor([
+      'function hidden(): void {}',
+      'export function zeta(a: string): string { return a; }',
+      'export function parse(text: string): object;',
+      'export function parse(text: string, strict: boolean): object;',
+      'export function parse(text: string, strict?: boolean): object { return {}; }',
+      'export class Box { open(): void {} private seal(): void {} }',
+      'export enum Color { Red = 1 }'
+    ].join('\n'));
+
+    expect(report.entries.map(entry => entry.id)).toEqual([
+      'api.ts#Box',
+      'api.ts#Box.open',
+      'api.ts#Color',
+      'api.ts#Color.Red',
+      'api.ts#parse',
+      'api.ts#parse~1',
+      'api.ts#zeta'
+    ]);
+  });
+
+  test('includes exported Go methods of types declared in another file', async () => {
+    fs.writeFileSync(path.join(root, 'store.go'), 'package store\n\ntype Store struct{}\n');
+    const report = await reportFor([
+      'package store',
+      'func (s *Store) Len() int { return 0 }',
+      'func (s *Store) grow() {}',
+      'func (c *cache) Len() int { return 0 }'
+    ].join('\n'), 'store_stats.go');
+
+    expect(report.entries.map(entry => entry.id)).toEqual([
+      'store.go#Store',
+      'store_stats.go#Store.Len'
+    ]);
+  });
+
+  test('includes public Rust methods of types declared in another file', async () => {
+    fs.writeFileSync(path.join(root, 'store.rs'), 'pub struct Store;\n');
+    const report = await reportFor([
+      'impl Store {',
+      '    pub fn count(&self) -> usize { 0 }',
+      '    pub(crate) fn grow(&mut self) {}',
+      '    fn shrink(&mut self) {}',
+      '}'
+    ].join('\n'), 'stats.rs');
+
+    expect(report.entries.map(entry => entry.id)).toEqual([
+      'stats.rs#Store::count',
+      'store.rs#Store'
+    ]);
+  });
+
+  test('formats reports canonically', async () => {
+    const source = 'export function add(a: number, b: number): number { return a + b; }\n';
+    const first = formatApiReport(await reportFor(source));
+    const second = formatApiReport(await reportFor(source));
+
+    expect(first).toBe(second);
+    expect(first.endsWith('\n')).toBe(true);
+    expect(JSON.parse(first).reportVersion).toBe(1);
+  });
+
+  test('classifies breaking and additive changes', async () => {
+    const before = await reportFor([
+      'export function keep(a: number): number { return a; }',
+      'export function extend(a: number): void {}',
+      'export function require(a: number): void {}',
+      'export function retype(): number { return 1; }',
+      'export function drop(): void {}'
+    ].join('\n'));
+
+    const after = await reportFor([
+      'export function keep(a: number): number { return a; }',
+      'export function extend(a: number, b?: string): void {}',
+      'export function require(a: number, b: string): void {}',
+      'export function retype(): string { return ""; }',
+      'export function fresh(): void {}'
+    ].join('\n'));
+
+    const changes = compareApiReports(before, after);
+    expect(changes.map(change => [change.id, change.severity])).toEqual([
+      ['api.ts#drop', 'breaking'],
+      ['api.ts#extend', 'additive'],
+      ['api.ts#fresh', 'additive'],
+      ['api.ts#require', 'breaking'],
+      ['api.ts#retype', 'breaking']
+    ]);
+  });
+
+  test('treats new required interface members as breaking and rest parameters as optional', async () => {
+    const before = await reportFor([
+      'export interface Store { get(key: string): string }',
+      'export class Cache { get(key: string): string { return key; } }',
+      'export function log(message: string): void {}'
+    ].join('\n'));
+
+    const after = await reportFor([
+      'export interface Store { get(key: string): string; set(key: string, value: string): void; clear?(): void }',
+      'export class Cache { get(key: string): string { return key; } set(key: string): void {} }',
+      'export function log(message: string, ...args: unknown[]): void {}'
+    ].join('\n'));
+
+    expect(compareApiReports(before, after).map(change => [change.id, change.severity, change.description])).toEqual([
+      ['api.ts#Cache.set', 'additive', 'new method'],
+      ['api.ts#Store.clear', 'additive', 'new method'],
+      ['api.ts#Store.set', 'breaking', 'new required method'],
+      ['api.ts#log', 'additive', "new optional parameter '...args'"]
+    ]);
+  });
+
+  test('treats new Python variadic and keyword-only parameters as additive', async () => {
+    const before = await reportFor([
+      'def log(message):',
+      '    pass',
+      'def fetch(url):',
+      '    pass'
+    ].join('\n'), 'api.py');
+
+    const after = await reportFor([
+      'def log(message, *args, **kwargs):',
+      '    pass',
+      'def fetch(url, *, timeout=None):',
+      '    pass'
+    ].join('\n'), 'api.py');
+
+    expect(compareApiReports(before, after).map(change => [change.id, change.severity, change.description])).toEqual([
+      ['api.py#fetch', 'additive', "new optional parameter 'timeout'"],
+      ['api.py#log', 'additive', "new optional parameter '*args'"],
+      ['api.py#log', 'additive', "new optional parameter '**kwargs'"]
+    ]);
+  });
+
+  test('treats new Go variadic parameters as additive', async () => {
+    const before = await reportFor('package api\n\nfunc Log(message string) {}\n', 'api.go');
+    const after = await reportFor('package api\n\nfunc Log(message string, args ...any) {}\n', 'api.go');
+
+    expect(compareApiReports(before, after).map(change => [change.id, change.severity, change.description])).toEqual([
+      ['api.go#Log', 'additive', "new optional parameter 'args'"]
+    ]);
+  });
+
+  test('ignores changes in how types are formatted', async () => {
+    const before = await reportFor([
+      'export type Pair = [string, number];',
+      'export function pick<T extends Record<string, unknown>>(source: Array<T>): Partial<T> { return source[0]; }'
+    ].join('\n'));
+
+    const after = await reportFor([
+      'export type Pair = [\n  string,\n  number\n];',
+      'export function pick<T extends Record< string, unknown >>(',
+      '  source: Array<\n    T\n  >',
+      '): Partial< T > { return source[0]; }'
+    ].join('\n'));
+
+    expect(compareApiReports(before, after)).toEqual([]);
+  });
+
+  test('reports no changes for an identical tree', async () => {
+    const source = 'export interface Options { name: string; debug?: boolean }\n';
+    expect(compareApiReports(await reportFor(source), await reportFor(source))).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test, beforeEach, afterEach, spyOn } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { CodeParser } from '../src/parser';
+import { DeclarationCache } from '../src/cache';
+import { loadLanguageModule, registerLanguage, resetLanguages } from '../src/languages';
+
+describe('DeclarationCache', () => {
+  let root: string;
+  let sourceDir: string;
+  let cacheDir: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-cache-'));
+    sourceDir = path.join(root, 'src');
+    cacheDir = path.join(root, 'cache');
+    fs.mkdirSync(sourceDir);
+    fs.writeFileSync(path.join(sourceDir, 'a.ts'), 'export function a(x: number): number { return x; }\n');
+    fs.writeFileSync(path.join(sourceDir, 'b.ts'), 'export function b(): void {}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    resetLanguages();
+  });
+
+  test('serves unchanged files without re-parsing', async () => {
+    const options = { directory: sourceDir, fileExtensions: ['.ts'], cacheDir };
+    const first = await new CodeParser().parseDirectory({ ...options });
+
+    const parser = new CodeParser();
+    const extractSpy = spyOn(parser, 'extractDeclarations');
+    const second = await parser.parseDirectory({ ...options });
+
+    expect(extractSpy).not.toHaveBeenCalled();
+    expect(second).toEqual(first);
+  });
+
+  test('re-parses files whose content changed', async () => {
+    const options = { directory: sourceDir, fileExtensions: ['.ts'], cacheDir };
+    await new CodeParser().parseDirectory({ ...options });
+
+    fs.writeFileSync(path.join(sourceDir, 'b.ts'), 'export function renamed(flag: boolean): void {}\n');
+
+    const parser = new CodeParser();
+    const extractSpy = spyOn(parser, 'extractDeclarations');
+    const result = await parser.parseDirectory({ ...options });
+
+    expect(extractSpy).toHaveBeenCalledTimes(1);
+    expect(result.map(file => file.functions.map(func => func.functionName))).toEqual([['a'], ['renamed']]);
+  });
+
+  test('re-parses files when an adapter module changes', async () => {
+    const modulePath = path.join(root, 'adapter.js');
+    const writeAdapter = (name: string) => fs.writeFileSync(modulePath,
+      `module.exports = { name: '${name}', extensions: ['.fns'], grammar: 'tree-sitter-javascript' };\n`);
+    fs.writeFileSync(path.join(sourceDir, 'c.fns'), 'function c() {}\n');
+    const options = { directory: sourceDir, fileExtensions: ['.fns'], cacheDir };
+
+    writeAdapter('functions');
+    loadLanguageModule(modulePath);
+    await new CodeParser().parseDirectory({ ...options });
+
+    const cachedParser = new CodeParser();
+    const cachedSpy = spyOn(cachedParser, 'extractDeclarations');
+    await cachedParser.parseDirectory({ ...options });
+    expect(cachedSpy).not.toHaveBeenCalled();
+
+    writeAdapter('edited-functions');
+    const parser = new CodeParser();
+    const extractSpy = spyOn(parser, 'extractDeclarations');
+    await parser.parseDirectory({ ...options });
+    expect(extractSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('is off while adapters registered with registerLanguage are in use', async () => {
+    registerLanguage({ name: 'functions', extensions: ['.fns'], grammar: 'tree-sitter-javascript' });
+    fs.writeFileSync(path.join(sourceDir, 'c.fns'), 'function c() {}\n');
+    const warnings: string[] = [];
+    const logger = { info: () => {}, warn: (message: string) => warnings.push(message), error: () => {} };
+
+    const result = await new CodeParser(undefined, logger).parseDirectory({ directory: sourceDir, fileExtensions: ['.fns'], cacheDir });
+
+    expect(result.map(file => file.functions[0].id)).toEqual(['c.fns#c']);
+    expect(fs.existsSync(cacheDir)).toBe(false);
+    expect(warnings).toEqual(['Language adapters registered with registerLanguage cannot be cached, not using the cache: functions']);
+  });
+
+  test('clear removes all entries', async () => {
+    await new CodeParser().parseDirectory({ directory: sourceDir, fileExtensions: ['.ts'], cacheDir });
+    expect(fs.readdirSync(cacheDir).length).toBe(2);
+
+    new DeclarationCache(cacheDir).clear();
+    expect(fs.existsSync(cacheDir)).toBe(false);
+  });
+});
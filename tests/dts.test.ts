@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import * as path from 'path';
+import { CodeParser } from '../src/parser';
+import { MemoryFileSource } from '../src/file-source';
+import { getDeclarationFileName, renderDeclarationFile } from '../src/dts';
+
+const tsSource = `interface Entry {
+  key: string;
+}
+
+function helper(): void {}
+
+/** A keyed store */
+export abstract class Store<T> {
+  private reset(): void {}
+  readonly onChange = (entry: Entry): void => {};
+  constructor(name: string) {}
+  get size(): number { return 0; }
+  abstract load(id: string): Promise<T>;
+}
+
+export default function open(path: string, mode?: number): Store<unknown> {
+  return null!;
+}
+`;
+
+const jsSource = `/**
+ * Pad a string.
+ * @param {string} text
+ * @param {number=} width
+ * @param {?string} [fill]
+ * @returns {Array.<string>}
+ */
+export function pad(text, width, fill) {
+  return [text];
+}
+
+export async function load(id) {}
+`;
+
+describe('declaration stubs', () => {
+  const parse = async (fileName: string, content: string) => {
+    const parser = new CodeParser(new MemoryFileSource({ [path.join('src', fileName)]: content }));
+    const [fileDecl] = await parser.parseDirectory({ directory: 'src', fileExtensions: [path.extname(fileName)] });
+    return fileDecl;
+  };
+
+  test('renders TypeScript declarations, keeping local types and the default export', async () => {
+    expect(renderDeclarationFile(await parse('store.ts', tsSource))).toBe([
+      'declare function open(path: string, mode?: number): Store<unknown>;',
+      '',
+      '/** A keyed store */',
+      'export declare abstract class Store<T> {',
+      '  private reset;',
+      '  readonly onChange: (entry: Entry) => void;',
+      '  constructor(name: string);',
+      '  get size(): number;',
+      '  abstract load(id: string): Promise<T>;',
+      '}',
+      '',
+      'interface Entry {',
+      '  key: string;',
+      '}',
+      '',
+      'export default open;',
+      ''
+    ].join('\n'));
+  });
+
+  test('renders overloads, interface heritage and members, parameter properties and function types', async () => {
+    const source = [
+      'export interface Table<T> extends Iterable<T>, Sized {',
+      '  readonly name: string;',
+      '  [column: string]: unknown;',
+      '  (row: number): T;',
+      '  new (name: string): Table<T>;',
+      '}',
+      'interface Sized { size: number }',
+      'export type Handler = (req: string) => void;',
+      'export function pick(key: string): string;',
+      'export function pick(key: number): number;',
+      'export function pick(key: any): any { return key; }',
+      'export class K<T> extends Array<T> { private constructor(public readonly v: T, private w: number) { super(); } }'
+    ].join('\n');
+
+    expect(renderDeclarationFile(await parse('table.ts', source))).toBe([
+      'export declare function pick(key: string): string;',
+      '',
+      'export declare function pick(key: number): number;',
+      '',
+      'export declare class K<T> extends Array<T> {',
+      '  readonly v: T;',
+      '  private w;',
+      '  private constructor(v: T, w: number);',
+      '}',
+      '',
+      'export interface Table<T> extends Iterable<T>, Sized {',
+      '  readonly name: string;',
+      '  [column: string]: unknown;',
+      '  (row: number): T;',
+      '  new (name: string): Table<T>;',
+      '}',
+      '',
+      'interface Sized {',
+      '  size: number;',
+      '}',
+      '',
+      'export type Handler = (req: string) => void;',
+      ''
+    ].join('\n'));
+  });
+
+  test('declares only module-scope functions of a script', async () => {
+    const source = [
+      'function format(value: number): string {',
+      '  function format(value: Date, locale: string): string {',
+      '    return value.toLocaleString(locale);',
+      '  }',
+      '  return String(value);',
+      '}',
+      ''
+    ].join('\n');
+
+    expect(renderDeclarationFile(await parse('scoping.ts', source))).toBe([
+      'declare function format(value: number): string;',
+      ''
+    ].join('\n'));
+  });
+
+  test('takes JavaScript types from JSDoc', async () => {
+    expect(renderDeclarationFile(await parse('pad.js', jsSource))).toBe([
+      '/** Pad a string. */',
+      'export declare function pad(text: string, width?: number, fill?: string | null): Array<string>;',
+      '',
+      'export declare function load(id: any): Promise<any>;',
+      ''
+    ].join('\n'));
+  });
+
+  test('maps source extensions to declaration extensions', () => {
+    expect(getDeclarationFileName('src/a.js')).toBe('src/a.d.ts');
+    expect(getDeclarationFileName('src/a.mts')).toBe('src/a.d.mts');
+    expect(getDeclarationFileName('src/a.cjs')).toBe('src/a.d.cts');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { CodeParser, parseDirectory } from '../src/parser';
+import { GitRevisionSource, MemoryFileSource } from '../src/file-source';
+
+describe('GitRevisionSource', () => {
+  let root: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=funsig', '-c', 'user.email=funsig@example.com', ...args], { cwd: root, stdio: 'pipe' });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-git-'));
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'src', 'math.ts'), 'export function add(a: number, b: number): number { return a + b; }\n');
+    fs.writeFileSync(path.join(root, 'src', 'skip.ts'), 'export function skipped(): void {}\n');
+    fs.writeFileSync(path.join(root, 'src', '.gitignore'), 'skip.ts\n');
+    git('init', '-q');
+    git('add', '-f', '.');
+    git('commit', '-q', '-m', 'initial');
+    git('tag', 'v1');
+
+    // Diverge the working tree from the tagged revision
+    fs.writeFileSync(path.join(root, 'src', 'math.ts'), 'export function sum(values: number[]): number { return 0; }\n');
+    fs.writeFileSync(path.join(root, 'src', 'extra.ts'), 'export function extra(): void {}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('parses the files of a revision instead of the working tree', async () => {
+    const directory = path.join(root, 'src');
+    const result = await parseDirectory({ directory, fileExtensions: ['.ts'], rev: 'v1' });
+
+    expect(result.map(file => path.relative(root, file.fileName))).toEqual([path.join('src', 'math.ts')]);
+    expect(result[0].functions.map(func => func.functionName)).toEqual(['add']);
+
+    // The working tree is left untouched
+    expect(fs.readFileSync(path.join(directory, 'math.ts'), 'utf8')).toContain('sum');
+  });
+
+  test('rejects unknown revisions', () => {
+    expect(() => new GitRevisionSource(root, 'no-such-rev')).toThrow('Unknown git revision: no-such-rev');
+  });
+});
+
+describe('MemoryFileSource', () => {
+  test('parses in-memory files', async () => {
+    const directory = path.resolve('virtual');
+    const parser = new CodeParser(new MemoryFileSource({
+      [path.join(directory, 'a.ts')]: 'export function a(x: string): string { return x; }\n',
+      [path.join(directory, 'lib', 'b.js')]: 'function b(y) { return y; }\n'
+    }));
+
+    const result = await parser.parseDirectory({ directory });
+    expect(result.map(file => path.relative(directory, file.fileName))).toEqual(['a.ts', path.join('lib', 'b.js')]);
+    expect(result.map(file => file.functions.map(func => func.functionName))).toEqual([['a'], ['b']]);
+  });
+});
@@ -0,0 +1,63 @@
+// Package store keeps items in memory.
+package store
+
+import (
+	"io"
+	"sync"
+)
+
+// Store keeps items by key.
+// It is safe for concurrent use.
+type Store[K comparable, V any] struct {
+	mu    sync.Mutex
+	items map[K]V
+	// Name identifies the store in logs.
+	Name string `json:"name"`
+	io.Closer
+}
+
+// Reader reads items from a source.
+type Reader interface {
+	io.Closer
+	// Read fills p and reports how many bytes were read.
+	Read(p []byte) (n int, err error)
+	Reset()
+}
+
+type (
+	// Handler is called for every stored item.
+	Handler func(key string, value []byte) error
+	ID      = string
+	Level   int
+)
+
+// Get returns the value for key.
+func (s *Store[K, V]) Get(key K) (V, bool) {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	value, ok := s.items[key]
+	return value, ok
+}
+
+func (s *Store[K, V]) evict(keys ...K) {}
+
+// String names the level.
+func (l Level) String() string {
+	return "level"
+}
+
+// New creates a store with the given names.
+//
+// Deprecated: Use NewStore instead.
+func New(names ...string) *Store[string, int] {
+	return nil
+}
+
+// Map applies f to every element.
+func Map[T, U any](xs []T, f func(T) U) []U {
+	return nil
+}
+
+func copyBytes(dst, src []byte, n int) (int, error) {
+	return 0, nil
+}
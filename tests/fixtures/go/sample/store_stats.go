@@ -0,0 +1,6 @@
+package store
+
+// Len reports the number of items; Store is declared in store.go.
+func (s *Store[K, V]) Len() int {
+	return len(s.items)
+}
@@ -0,0 +1,47 @@
+// Sample JavaScript file with rich JSDoc comments for testing
+
+/**
+ * Fetch a resource over HTTP.
+ *
+ * Retries transient failures before giving up.
+ * @param {string} url - Resource URL
+ * @param {{ retries: number, timeout?: number }} [options={}] Request options,
+ *   merged with the defaults
+ * @param {boolean=} verbose Log each attempt
+ * @returns {Promise<Response>} The final response
+ * @throws {TypeError} When the URL is malformed
+ * @throws When all retries fail
+ * @example
+ * const res = await fetchWithRetry('https://example.com');
+ * console.log(res.status);
+ * @since 1.2.0
+ * @see https://developer.mozilla.org/docs/Web/API/fetch
+ * @deprecated Use `request()` instead
+ * @internal
+ */
+async function fetchWithRetry(url, options, verbose) {
+  return fetch(url, options);
+}
+
+// Not a doc comment: line comments are ignored
+function undocumented(value) {
+  return value;
+}
+
+/** Single-line summary */
+const shout = (text) => text.toUpperCase();
+
+/**
+ * Documented class
+ * @template T Item type
+ */
+class Queue {
+  /**
+   * Add an item to the queue
+   * @param {T} item Item to add
+   * @returns {number} New length
+   */
+  push(item) {
+    return 0;
+  }
+}
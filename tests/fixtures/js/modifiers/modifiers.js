@@ -0,0 +1,35 @@
+// Sample JavaScript file with function and member modifiers for testing
+
+async function fetchAll(urls) {
+  return urls;
+}
+
+const numbers = function* (limit) {
+  for (let i = 0; i < limit; i++) yield i;
+};
+
+const handler = async function (event) {
+  return event;
+};
+
+class Counter {
+  static instances = 0;
+
+  static create = () => new Counter();
+
+  constructor(start) {
+    this.value = start;
+  }
+
+  get current() {
+    return this.value;
+  }
+
+  set current(value) {
+    this.value = value;
+  }
+
+  async *[Symbol.asyncIterator]() {
+    yield this.value;
+  }
+}
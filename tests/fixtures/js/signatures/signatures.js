@@ -0,0 +1,26 @@
+// Sample JavaScript file with rest parameters for testing canonical signatures
+
+/**
+ * Add numbers.
+ * @param {number} first First number
+ * @param {...number} rest More numbers
+ * @returns {number} The sum
+ */
+export function sum(first, ...rest) {
+  return rest.reduce((total, value) => total + value, first);
+}
+
+/**
+ * Join values with a separator.
+ * @param {string} separator
+ * @param {...(string|number)} values
+ */
+export function join(separator = ', ', ...values) {
+  return values.join(separator);
+}
+
+export const first = (a, ...more) => a;
+
+export class Logger {
+  log(level, ...messages) {}
+}
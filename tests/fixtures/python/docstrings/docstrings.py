@@ -0,0 +1,42 @@
+def google(url: str, retries: int = 3, *args, **kwargs) -> dict:
+    """Fetch a resource.
+
+    Retries on transient errors.
+
+    Args:
+        url (str): Address of the resource.
+        retries (int, optional): Number of attempts,
+            including the first one.
+        *args: Passed to the transport.
+        **kwargs: Extra headers.
+
+    Returns:
+        dict: The decoded response.
+
+    Raises:
+        TimeoutError: If every attempt timed out.
+        ValueError: If the URL is invalid.
+
+    Example:
+        >>> google("https://example.com")
+        {}
+    """
+    return {}
+
+
+def sphinx(path, mode="r"):
+    '''
+    Open a file.
+
+    :param path: Path of the file.
+    :type path: str
+    :param str mode: Mode to open it with.
+    :returns: The file object.
+    :rtype: io.TextIOBase
+    :raises OSError: If the file cannot be opened.
+    '''
+    return open(path, mode)
+
+
+def plain():
+    r"""Matches \d+ in the input."""
@@ -0,0 +1,86 @@
+"""Inventory service."""
+from abc import ABC, abstractmethod
+import functools
+
+__all__ = ["Inventory", "load_inventory", "Repository"]
+
+
+def load_inventory(path: str, *, strict: bool = False, **options) -> "Inventory":
+    """Load an inventory from a file."""
+    return Inventory()
+
+
+async def fetch_items(session, *urls: str, timeout: float | None = None) -> list[dict[str, int]]:
+    results = []
+
+    def collect(item):
+        results.append(item)
+
+    return results
+
+
+def _internal_helper(value=0):
+    return value
+
+
+def iterate[T: int](items: list[T], /, reverse=False):
+    for item in items:
+        yield item
+
+
+class Repository(ABC):
+    """Storage for items."""
+
+    @abstractmethod
+    def get(self, key: str) -> bytes | None:
+        ...
+
+
+@functools.total_ordering
+class Inventory(
+    Repository,  # storage backend
+    metaclass=type,
+):
+    """A collection of items.
+
+    Items are kept in insertion order.
+    """
+
+    def __init__(self, name: str = "default", *items: "Item") -> None:
+        self._items = list(items)
+
+    @property
+    def size(self) -> int:
+        return len(self._items)
+
+    @size.setter
+    def size(self, value: int) -> None:
+        pass
+
+    @staticmethod
+    def create(*args, **kwargs) -> "Inventory":
+        return Inventory()
+
+    @classmethod
+    async def from_file(cls, path: str) -> "Inventory":
+        return cls()
+
+    def _rebuild(self):
+        pass
+
+    def __len__(self) -> int:
+        return len(self._items)
+
+    def get(self, key: str) -> bytes | None:
+        return None
+
+    class Entry:
+        """An item with its count."""
+
+        def total(self, *, scale: int = 1) -> int:
+            return 0
+
+
+if True:
+    def conditional() -> None:
+        pass
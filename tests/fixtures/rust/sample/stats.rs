@@ -0,0 +1,8 @@
+use crate::store::Store;
+
+impl<'a, T: Clone + Send> Store<'a, T> {
+    /// Number of items; `Store` is declared in store.rs.
+    pub fn count(&self) -> usize {
+        self.len()
+    }
+}
@@ -0,0 +1,112 @@
+use std::fmt;
+use std::io;
+
+/// A collection of borrowed items.
+///
+/// Items are kept in insertion order.
+#[derive(Debug, Clone)]
+pub struct Store<'a, T: Clone>
+where
+    T: Send,
+{
+    items: Vec<&'a T>,
+    /// Display name
+    pub name: String,
+}
+
+/// Identifies an item in a store.
+pub struct ItemId(pub u64, String);
+
+pub(crate) enum Color {
+    Red,
+    Green = 2,
+}
+
+/// Outcome of a lookup.
+pub enum Lookup<T> {
+    Found(T),
+    Missing { reason: String },
+}
+
+impl<T> Lookup<T> {
+    /// Whether the item was found.
+    pub fn is_found(&self) -> bool {
+        matches!(self, Lookup::Found(_))
+    }
+}
+
+/// Reads bytes from a source.
+pub trait Reader<T>: Send {
+    /// Largest read in bytes.
+    const MAX: usize;
+    type Item;
+
+    /// Read into `buf`, returning the number of bytes read.
+    ///
+    /// # Errors
+    ///
+    /// Fails when the source is closed.
+    fn read(&mut self, buf: &mut [u8]) -> io::Result<usize>;
+
+    fn close(self)
+    where
+        Self: Sized,
+    {
+    }
+}
+
+impl<'a, T: Clone> Store<'a, T>
+where
+    T: Send,
+{
+    /// Create a store.
+    ///
+    /// # Examples
+    ///
+    /// ```
+    /// # use store::Store;
+    /// let store = Store::new(vec![]);
+    /// ```
+    pub const fn new(items: Vec<&'a T>) -> Self {
+        Store { items, name: String::new() }
+    }
+
+    pub async unsafe fn get(&self, index: usize, mut fallback: Option<&'a T>) -> Option<&'a T> {
+        self.items.get(index).copied().or(fallback.take())
+    }
+
+    pub(crate) fn len(&self) -> usize {
+        self.items.len()
+    }
+
+    fn reset(self: Box<Self>, (start, end): (usize, usize)) {}
+}
+
+impl<T: Clone + Send> fmt::Display for Store<'_, T> {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        write!(f, "{}", self.name)
+    }
+}
+
+/// Merge two stores.
+#[deprecated(since = "0.2.0", note = "use `Store::extend` instead")]
+pub fn merge<'a, T, U>(left: Store<'a, T>, right: U) -> Store<'a, T>
+where
+    T: Clone + Send,
+    U: IntoIterator<Item = &'a T>,
+{
+    left
+}
+
+/// Log a formatted message from C.
+pub unsafe extern "C" fn log_message(level: i32, format: *const c_char, ...) {}
+
+pub type Result<T> = std::result::Result<T, io::Error>;
+
+fn helper() {}
+
+#[cfg(test)]
+mod tests {
+    #[test]
+    fn creates_store() {}
+}
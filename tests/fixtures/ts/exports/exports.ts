@@ -0,0 +1,36 @@
+// Sample TypeScript file with various export forms for testing
+
+export function inlineExport(value: string): string {
+  function format(text: string): string {
+    return text.trim();
+  }
+  return format(value);
+}
+
+export default class DefaultService {
+  start(): void {}
+}
+
+export const arrowExport = (n: number): number => n * 2;
+
+export interface Options {
+  verbose?: boolean;
+}
+
+function format(text: string): string {
+  return text.toUpperCase();
+}
+
+function internalHelper(): void {}
+
+type Mode = 'fast' | 'slow';
+
+enum Level {
+  Low,
+  High
+}
+
+export { format as formatText, Level };
+export type { Mode };
+export { something } from './elsewhere';
+export * from './everything';
@@ -0,0 +1,21 @@
+// Sample TypeScript file with generic type parameters for testing
+
+function pick<T extends object, K extends keyof T = keyof T>(source: T, keys: K[]): Pick<T, K> {
+  return source;
+}
+
+const identity = <T,>(value: T): T => value;
+
+type Mapper<In, Out = In> = (input: In) => Out;
+
+type Box<T> = { value: T };
+
+interface Store<State extends Record<string, unknown> = {}> {
+  select<R>(selector: (state: State) => R): R;
+}
+
+class Cache<Key, Value = string> {
+  get<Fallback = undefined>(key: Key, fallback?: Fallback): Value | Fallback {
+    return fallback as Fallback;
+  }
+}
@@ -0,0 +1,35 @@
+// Sample TypeScript file with function and member modifiers for testing
+
+async function loadConfig(path: string): Promise<string> {
+  return path;
+}
+
+function* range(start: number, end: number): Generator<number> {
+  for (let i = start; i < end; i++) yield i;
+}
+
+async function* stream(): AsyncGenerator<string> {
+  yield 'chunk';
+}
+
+abstract class Shape {
+  private static count = 0;
+
+  constructor(protected readonly name: string) {}
+
+  static create(): void {}
+
+  protected abstract area(): number;
+
+  public get label(): string {
+    return this.name;
+  }
+
+  public set label(value: string) {}
+
+  private async refresh(): Promise<void> {}
+
+  public readonly onResize = async (width: number): Promise<void> => {};
+
+  *points(): Generator<number> {}
+}
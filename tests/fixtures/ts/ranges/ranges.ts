@@ -0,0 +1,15 @@
+// Sample TypeScript file with non-ASCII text for testing source ranges
+
+const greeting = 'héllo wörld 😀';
+
+export function greet(name: string): string {
+  return `${greeting}, ${name}`;
+}
+
+export const shout = (text: string): string => text.toUpperCase() + '‼';
+
+export class Café {
+  order(item: string): void {}
+}
+
+export type Menu = { items: string[] };
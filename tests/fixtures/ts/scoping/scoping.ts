@@ -0,0 +1,26 @@
+// Sample TypeScript file where declarations share names across scopes, for testing
+
+class UserStore {
+  get(id: number): User | undefined {
+    return undefined;
+  }
+}
+
+class OrderStore {
+  get(id: string, includeItems?: boolean): Promise<Order> {
+    return Promise.resolve({} as Order);
+  }
+}
+
+function format(value: number): string {
+  function format(value: Date, locale: string): string {
+    return value.toLocaleString(locale);
+  }
+  return String(value);
+}
+
+function merge(left: Map<string, number>, right: Record<string, [number, number]>): Map<string, number> {
+  return left;
+}
+
+const score = (weights: Array<{ key: string, weight: number }>, fallback: number = 0): number => fallback;
@@ -0,0 +1,26 @@
+export function merge<
+  T extends object
+>(
+  target: T,
+  label?: string,
+  ...sources: Array<
+    Partial<T>
+  >
+): T {
+  return Object.assign(target, ...sources);
+}
+
+export const toPairs = <K extends string, V>(record: Record<K, V>,
+    sorted = false): [K, V][] => Object.entries(record) as [K, V][];
+
+export type Listener<E> = (event: E, ...extra: unknown[]) => void;
+
+@register
+export abstract class Repository<T extends { id: string }>
+  // Shared storage
+  extends Store<T>
+  implements Iterable<T>, Disposable {
+  find(id: string, options?: { deep: boolean }): T | undefined {
+    return undefined;
+  }
+}
@@ -0,0 +1,38 @@
+// Sample TypeScript file with interfaces, type aliases and enums for testing
+
+/**
+ * Interface with property and method members
+ */
+interface Repository<T> {
+  readonly name: string;
+  size?: number;
+  find(id: string): T | undefined;
+  save(item: T, overwrite?: boolean): Promise<void>;
+  onChange: (item: T) => void;
+}
+
+/**
+ * Function type alias
+ */
+type Comparator = (a: number, b: number) => number;
+
+/**
+ * Object type alias
+ */
+type Point = { x: number; y: number };
+
+/**
+ * Enum with implicit and explicit initializers
+ */
+enum Direction {
+  Up,
+  Down = 2,
+  Left = 'left',
+  'Right' = 'right'
+}
+
+const enum Flags {
+  None = 0,
+  Read = 1 << 0,
+  Write = 1 << 1
+}
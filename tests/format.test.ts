@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import * as path from 'path';
+import { CodeParser } from '../src/parser';
+import { MemoryFileSource } from '../src/file-source';
+import { formatMarkdown, formatText } from '../src/format';
+import type { FileDeclaration } from '../src/types';
+
+const source = `/**
+ * Add two numbers.
+ *
+ * Longer description that is left out of the digest.
+ */
+export function add(a: number, b?: number): number {
+  return a + (b || 0);
+}
+
+export class Queue<T> {
+  static empty(): void {}
+  async *drain(): AsyncGenerator<T> {}
+}
+
+export enum Level { Low, High = 2 }
+
+export type Handler = (req: string) => void;
+export interface Sized extends Iterable<number> { readonly size: number; [key: string]: unknown }
+`;
+
+describe('digest formats', () => {
+  const parse = async (): Promise<FileDeclaration[]> => {
+    const parser = new CodeParser(new MemoryFileSource({ [path.join('src', 'queue.ts')]: source }));
+    return parser.parseDirectory({ directory: 'src', fileExtensions: ['.ts'] });
+  };
+
+  test('text lists one signature per line', async () => {
+    expect(formatText(await parse())).toBe([
+      'src/queue.ts:6 add(a: number, b?: number): number',
+      'src/queue.ts:10 class Queue<T>',
+      'src/queue.ts:11 static Queue.empty(): void',
+      'src/queue.ts:12 async *Queue.drain(): AsyncGenerator<T>',
+      'src/queue.ts:15 enum Level { Low, High = 2 }',
+      'src/queue.ts:17 type Handler = (req: string) => void',
+      'src/queue.ts:18 interface Sized extends Iterable<number>',
+      'src/queue.ts:18 readonly Sized.size: number',
+      'src/queue.ts:18 Sized[key: string]: unknown',
+      ''
+    ].join('\n'));
+  });
+
+  test('markdown has a heading and code block per file, with doc summaries', async () => {
+    expect(formatMarkdown(await parse())).toBe([
+      '## src/queue.ts',
+      '',
+      '```ts',
+      '// Add two numbers.',
+      'add(a: number, b?: number): number',
+      'class Queue<T>',
+      'static Queue.empty(): void',
+      'async *Queue.drain(): AsyncGenerator<T>',
+      'enum Level { Low, High = 2 }',
+      'type Handler = (req: string) => void',
+      'interface Sized extends Iterable<number>',
+      'readonly Sized.size: number',
+      'Sized[key: string]: unknown',
+      '```',
+      ''
+    ].join('\n'));
+  });
+
+  test('markdown comments doc summaries in the language of the file and qualifies nested classes', async () => {
+    const pythonSource = [
+      'class Inventory:',
+      '    """Items in stock."""',
+      '    class Entry:',
+      '        def total(self) -> int:',
+      '            return 0',
+      ''
+    ].join('\n');
+    const parser = new CodeParser(new MemoryFileSource({ [path.join('src', 'stock.py')]: pythonSource }));
+
+    expect(formatMarkdown(await parser.parseDirectory({ directory: 'src', fileExtensions: ['.py'] }))).toBe([
+      '## src/stock.py',
+      '',
+      '```py',
+      '# Items in stock.',
+      'class Inventory',
+      'class Inventory.Entry',
+      'Inventory.Entry.total() -> int',
+      '```',
+      ''
+    ].join('\n'));
+  });
+});
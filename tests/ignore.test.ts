@@ -0,0 +1,117 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { CodeParser } from '../src/parser';
+import { PathMatcher } from '../src/ignore';
+
+describe('PathMatcher', () => {
+  test('matches unanchored names at any depth', () => {
+    const matcher = new PathMatcher(['dist', '*.log']);
+    expect(matcher.matches('dist', true)).toBe(true);
+    expect(matcher.matches('packages/app/dist', true)).toBe(true);
+    expect(matcher.matches('logs/debug.log', false)).toBe(true);
+    expect(matcher.matches('src/index.ts', false)).toBe(false);
+  });
+
+  test('anchors patterns containing a slash', () => {
+    const matcher = new PathMatcher(['/build', 'src/generated/**']);
+    expect(matcher.matches('build', true)).toBe(true);
+    expect(matcher.matches('packages/build', true)).toBe(false);
+    expect(matcher.matches('src/generated/api/client.ts', false)).toBe(true);
+    expect(matcher.matches('lib/src/generated/client.ts', false)).toBe(false);
+  });
+
+  test('supports directory-only patterns, negation and comments', () => {
+    const matcher = new PathMatcher(['# comment', 'cache/', '*.ts', '!keep.ts']);
+    expect(matcher.matches('cache', true)).toBe(true);
+    expect(matcher.matches('cache', false)).toBe(false);
+    expect(matcher.matches('src/app.ts', false)).toBe(true);
+    expect(matcher.matches('src/keep.ts', false)).toBe(false);
+  });
+
+  test('supports ** between segments, ? and character classes', () => {
+    const matcher = new PathMatcher(['src/**/test?.[jt]s']);
+    expect(matcher.matches('src/test1.js', false)).toBe(true);
+    expect(matcher.matches('src/a/b/testX.ts', false)).toBe(true);
+    expect(matcher.matches('src/a/test10.ts', false)).toBe(false);
+  });
+});
+
+describe('CodeParser.findFiles', () => {
+  let root: string;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const find = (options: Parameters<CodeParser['findFiles']>[2] = {}) =>
+    new CodeParser()
+      .findFiles(root, ['.js', '.ts'], options)
+      .map(filePath => path.relative(root, filePath).split(path.sep).join('/'));
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-walk-'));
+    write('src/index.ts', 'export function main() {}\n');
+    write('src/util.js', 'function util() {}\n');
+    write('src/generated/api.ts', 'export function api() {}\n');
+    write('src/legacy/old.js', 'function old() {}\n');
+    write('node_modules/dep/index.js', 'function dep() {}\n');
+    write('dist/index.js', 'function built() {}\n');
+    write('.git/hooks/pre-commit.js', 'function hook() {}\n');
+    write('vendor/jquery.min.js', 'function jq() {}\n');
+    write('vendor/bundle.js', 'var a=1;'.repeat(2000));
+    write('big.js', '// padding\n'.repeat(200));
+    write('.gitignore', 'dist/\n');
+    write('src/.funsigignore', 'generated\n');
+    fs.symlinkSync(path.join(root, 'src'), path.join(root, 'src', 'loop'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('honors ignore files and skips node_modules, .git and minified files', () => {
+    expect(find({ exclude: ['big.js'] })).toEqual([
+      'src/index.ts',
+      'src/legacy/old.js',
+      'src/util.js'
+    ]);
+  });
+
+  test('skips files over the size limit', () => {
+    expect(find({ maxFileSize: 1000, includeMinified: true, include: ['big.js', 'vendor/**'] })).toEqual([
+      'vendor/jquery.min.js'
+    ]);
+  });
+
+  test('applies include and exclude globs', () => {
+    expect(find({ include: ['src/**'], exclude: ['legacy/'] })).toEqual([
+      'src/index.ts',
+      'src/util.js'
+    ]);
+  });
+
+  test('can disable ignore files and include minified files', () => {
+    expect(find({ useIgnoreFiles: false, includeMinified: true, exclude: ['.git', 'big.js'] })).toEqual([
+      'dist/index.js',
+      'node_modules/dep/index.js',
+      'src/generated/api.ts',
+      'src/index.ts',
+      'src/legacy/old.js',
+      'src/util.js',
+      'vendor/bundle.js',
+      'vendor/jquery.min.js'
+    ]);
+  });
+
+  test('follows symlinks without looping', () => {
+    expect(find({ followSymlinks: true, include: ['src/**'] })).toEqual([
+      'src/index.ts',
+      'src/legacy/old.js',
+      'src/util.js'
+    ]);
+  });
+});
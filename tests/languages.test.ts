@@ -0,0 +1,100 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { CodeParser, parseDirectory } from '../src/parser';
+import { registerLanguage, resetLanguages, getLanguageAdapter, canLoadAdaptersInWorkers } from '../src/languages';
+import { loadConfig } from '../src/config';
+
+// An adapter module that lists every top-level function of `.fns` files, named in upper case
+const ADAPTER_MODULE = `
+module.exports = {
+  name: 'shouting',
+  extensions: ['.fns'],
+  grammar: 'tree-sitter-javascript',
+  extract(rootNode, { getRange }) {
+    const functions = rootNode.namedChildren
+      .filter(node => node.type === 'function_declaration')
+      .map(node => {
+        const functionName = node.childForFieldName('name').text.toUpperCase();
+        return {
+          id: '', functionName, lineNo: node.startPosition.row + 1, typeParameters: [], parameters: [],
+          signature: functionName + '()', range: getRange(node), kind: 'function', async: false, generator: false,
+          static: false, abstract: false, readonly: false, exported: true, defaultExport: false, reExported: false
+        };
+      });
+    return { functions, classes: [], interfaces: [], typeAliases: [], enums: [] };
+  }
+};
+`;
+
+describe('language adapters', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-languages-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    // Tests share the registry with every other test file
+    resetLanguages();
+  });
+
+  test('loads adapters listed in a config file, on worker threads too', async () => {
+    const sourceDir = path.join(root, 'src');
+    fs.mkdirSync(path.join(root, 'adapters'));
+    fs.mkdirSync(sourceDir);
+    fs.writeFileSync(path.join(root, 'adapters', 'shouting.js'), ADAPTER_MODULE);
+    fs.writeFileSync(path.join(root, 'funsig.config.json'), JSON.stringify({ languages: ['./adapters/shouting.js'] }));
+    fs.writeFileSync(path.join(sourceDir, 'a.fns'), 'function hello() {}\n');
+    fs.writeFileSync(path.join(sourceDir, 'b.fns'), 'function world() {}\nfunction again() {}\n');
+
+    loadConfig(path.join(root, 'funsig.config.json'));
+    expect(getLanguageAdapter('x.fns')!.name).toBe('shouting');
+
+    for (const concurrency of [1, 2]) {
+      const result = await parseDirectory({ directory: sourceDir, fileExtensions: ['.fns'], concurrency });
+      expect(result.map(file => file.functions.map(func => func.id))).toEqual([
+        ['a.fns#HELLO'],
+        ['b.fns#WORLD', 'b.fns#AGAIN']
+      ]);
+    }
+  });
+
+  test('rejects config files listing invalid adapters', () => {
+    fs.writeFileSync(path.join(root, 'broken.js'), `module.exports = { name: 'broken', extensions: ['fns'], grammar: 'x' };`);
+    fs.writeFileSync(path.join(root, 'funsig.config.json'), JSON.stringify({ languages: ['./broken.js'] }));
+
+    expect(() => loadConfig(path.join(root, 'funsig.config.json'))).toThrow('Invalid language adapter');
+  });
+
+  test('adapters without an extractor use the JavaScript rules', async () => {
+    registerLanguage({ name: 'es-module', extensions: ['.es'], grammar: 'tree-sitter-javascript' });
+    const filePath = path.join(root, 'a.es');
+    fs.writeFileSync(filePath, 'export function add(a, b) { return a + b; }\n');
+
+    const result = await new CodeParser().parseFile(filePath);
+
+    expect(result.functions.map(func => func.signature)).toEqual(['add(a, b)']);
+    expect(result.functions[0].exported).toBe(true);
+  });
+
+  test('parses on the main thread with a warning while registered adapters are in use', async () => {
+    registerLanguage({ name: 'es-module', extensions: ['.es'], grammar: 'tree-sitter-javascript' });
+    fs.writeFileSync(path.join(root, 'a.es'), 'export function a() {}\n');
+    fs.writeFileSync(path.join(root, 'b.es'), 'export function b() {}\n');
+    const warnings: string[] = [];
+    const logger = { info: () => {}, warn: (message: string) => warnings.push(message), error: () => {} };
+
+    const result = await parseDirectory({ directory: root, fileExtensions: ['.es'], concurrency: 2, logger });
+
+    expect(result.map(file => file.functions[0].id)).toEqual(['a.es#a', 'b.es#b']);
+    expect(warnings).toEqual(['Language adapters registered with registerLanguage cannot run on worker threads, parsing on the main thread']);
+
+    resetLanguages();
+    expect(canLoadAdaptersInWorkers()).toBe(true);
+    expect(getLanguageAdapter('a.es')).toBeUndefined();
+    expect(getLanguageAdapter('a.js')!.name).toBe('javascript');
+  });
+});
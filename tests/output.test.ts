@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import { createGenerator } from 'ts-json-schema-generator';
+import { buildOutputEnvelope, OUTPUT_SCHEMA_VERSION } from '../src/output';
+import { VERSION } from '../src/version';
+import type { FileDeclaration } from '../src/types';
+
+const rootDir = path.join(__dirname, '..');
+
+const emptyFile = (fileName: string): FileDeclaration =>
+  ({ fileName, functions: [], classes: [], interfaces: [], typeAliases: [], enums: [] });
+
+describe('output envelope', () => {
+  test('describes the run and lists the files that failed', () => {
+    const files = [emptyFile('src/a.ts'), { ...emptyFile('src/b.ts'), error: 'Invalid argument' }];
+    const options = { directory: 'src', fileExtensions: ['.ts'], concurrency: 2, outputFile: 'out.json' };
+
+    const envelope = buildOutputEnvelope(files, options, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-01T00:00:01.5Z'));
+
+    expect(envelope).toEqual({
+      schemaVersion: OUTPUT_SCHEMA_VERSION,
+      toolVersion: VERSION,
+      rootDirectory: 'src',
+      options: { fileExtensions: ['.ts'] },
+      fileCount: 2,
+      startedAt: '2024-01-01T00:00:00.000Z',
+      durationMs: 1500,
+      errors: [{ fileName: 'src/b.ts', message: 'Invalid argument' }],
+      files
+    });
+  });
+
+  test('the published schema is up to date with src/types.ts', () => {
+    const schema = createGenerator({
+      path: path.join(rootDir, 'src', 'types.ts'),
+      tsconfig: path.join(rootDir, 'tsconfig.json'),
+      type: 'OutputEnvelope'
+    }).createSchema('OutputEnvelope');
+
+    const published = JSON.parse(fs.readFileSync(path.join(rootDir, 'schema', 'funsig-output.schema.json'), 'utf8'));
+    expect(published).toEqual(JSON.parse(JSON.stringify(schema)));
+  }, 60000);
+});
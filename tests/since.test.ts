@@ -0,0 +1,65 @@
+import { describe, expect, test, beforeEach, afterEach, spyOn } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { CodeParser } from '../src/parser';
+import { diffSinceRevision } from '../src/since';
+
+describe('diffSinceRevision', () => {
+  let root: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=funsig', '-c', 'user.email=funsig@example.com', ...args], { cwd: root, stdio: 'pipe' });
+
+  const write = (name: string, content: string) => fs.writeFileSync(path.join(root, name), content);
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-since-'));
+    write('math.ts', 'export function add(a: number, b: number): number { return a + b; }\nexport function sub(a: number, b: number): number { return a - b; }\n');
+    write('strings.ts', 'export function upper(s: string): string { return s; }\n');
+    write('stable.ts', 'export function stable(): void {}\n');
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('reports declaration changes in modified, staged, untracked and deleted files', async () => {
+    // Unstaged modification
+    write('math.ts', 'export function add(a: number, b: number, c?: number): number { return a + b; }\nexport function mul(a: number, b: number): number { return a * b; }\n');
+    // Staged new file
+    write('staged.ts', 'export function staged(): void {}\n');
+    git('add', 'staged.ts');
+    // Untracked file
+    write('untracked.ts', 'export function untracked(): void {}\n');
+    // Deleted file
+    fs.rmSync(path.join(root, 'strings.ts'));
+
+    const changes = await diffSinceRevision({ directory: root, fileExtensions: ['.ts'] }, 'HEAD');
+
+    expect(changes.map(change => [change.change, change.name, path.basename(change.fileName)])).toEqual([
+      ['changed', 'add', 'math.ts'],
+      ['removed', 'sub', 'math.ts'],
+      ['added', 'mul', 'math.ts'],
+      ['added', 'staged', 'staged.ts'],
+      ['removed', 'upper', 'strings.ts'],
+      ['added', 'untracked', 'untracked.ts']
+    ]);
+  });
+
+  test('parses only the changed files', async () => {
+    write('strings.ts', 'export function upper(s: string, locale?: string): string { return s; }\n');
+
+    const parseSpy = spyOn(CodeParser.prototype, 'parseFile');
+    try {
+      await diffSinceRevision({ directory: root, fileExtensions: ['.ts'] }, 'HEAD');
+      expect(parseSpy.mock.calls.map(call => path.basename(call[0]))).toEqual(['strings.ts', 'strings.ts']);
+    } finally {
+      parseSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test, beforeEach, afterEach, spyOn } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { parseDirectory, parseSource } from '../src/parser';
+import { silentLogger } from '../src/logger';
+import type { Logger } from '../src/types';
+
+describe('parseSource', () => {
+  test('parses code in the language given', async () => {
+    const result = await parseSource('def greet(name: str) -> str:\n    return name\n', { language: 'python' });
+
+    expect(result.fileName).toBe('untitled.py');
+    expect(result.functions.map(func => [func.id, func.signature])).toEqual([['untitled.py#greet', 'greet(name: str) -> str']]);
+  });
+
+  test('infers the language from the file name', async () => {
+    const result = await parseSource('export interface User { id: string }\n', { fileName: 'src/user.ts' });
+
+    expect(result.fileName).toBe('src/user.ts');
+    expect(result.interfaces.map(decl => decl.id)).toEqual(['src/user.ts#User']);
+  });
+
+  test('rejects unknown languages', async () => {
+    await expect(parseSource('', { language: 'cobol' })).rejects.toThrow('Unsupported language for cobol');
+    await expect(parseSource('', {})).rejects.toThrow('Either a language or a file name is required');
+  });
+});
+
+describe('logger', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-logger-'));
+    fs.writeFileSync(path.join(root, 'a.ts'), 'export function a(): void {}\n');
+    fs.writeFileSync(path.join(root, 'b.ts'), 'export function b(): void {}\n');
+    fs.writeFileSync(path.join(root, 'notes.txt'), 'not code\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('receives the messages of the parser and its workers instead of the console', async () => {
+    const messages: string[] = [];
+    const logger: Logger = {
+      info: message => messages.push(`info: ${message}`),
+      warn: message => messages.push(`warn: ${message}`),
+      error: message => messages.push(`error: ${message}`)
+    };
+    const consoleError = spyOn(console, 'error');
+    const consoleWarn = spyOn(console, 'warn');
+
+    try {
+      for (const concurrency of [1, 3]) {
+        messages.length = 0;
+        await parseDirectory({ directory: root, concurrency, logger });
+
+        expect(messages.some(message => message.startsWith('info: Detected file extensions'))).toBe(true);
+        expect(messages.some(message => message.startsWith('warn: Unsupported file extension: .txt'))).toBe(true);
+      }
+      await parseDirectory({ directory: root, logger: silentLogger });
+
+      expect(consoleError).not.toHaveBeenCalled();
+      expect(consoleWarn).not.toHaveBeenCalled();
+    } finally {
+      consoleError.mockRestore();
+      consoleWarn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { CodeParser } from '../src/parser';
+import { diffFileDeclarations, formatChange } from '../src/diff';
+import { watchDirectory } from '../src/watch';
+
+describe('diffFileDeclarations', () => {
+  let root: string;
+
+  const parse = async (content: string) => {
+    const filePath = path.join(root, 'module.ts');
+    fs.writeFileSync(filePath, content);
+    return new CodeParser().parseFile(filePath);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-diff-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('reports added, removed and changed declarations', async () => {
+    const before = await parse([
+      'function keep(a: number): number { return a; }',
+      'function change(a: number): number { return a; }',
+      'function drop(): void {}',
+      'class Service { run(): void {} stop(): void {} }'
+    ].join('\n'));
+    const after = await parse([
+      '// a comment shifting every line',
+      'function keep(a: number): number { return a; }',
+      'function change(a: number, b?: string): number { return a; }',
+      'class Service { run(force: boolean): void {} }',
+      'function added(): void {}'
+    ].join('\n'));
+
+    expect(diffFileDeclarations(before, after).map(formatChange)).toEqual([
+      `~ function change ${after.fileName}:3`,
+      `- function drop ${after.fileName}:3`,
+      `~ method Service.run ${after.fileName}:4`,
+      `- method Service.stop ${after.fileName}:4`,
+      `+ function added ${after.fileName}:5`
+    ]);
+  });
+
+  test('reports every declaration of an added or removed file', async () => {
+    const declaration = await parse('export class A {}\nexport function b(): void {}\n');
+
+    expect(diffFileDeclarations(undefined, declaration).map(change => change.change)).toEqual(['added', 'added']);
+    expect(diffFileDeclarations(declaration, undefined).map(change => change.change)).toEqual(['removed', 'removed']);
+  });
+});
+
+describe('watchDirectory', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-watch-'));
+    fs.writeFileSync(path.join(root, 'a.ts'), 'export function a(): void {}\n');
+    fs.writeFileSync(path.join(root, 'b.ts'), 'export function b(): void {}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('emits changes for edited, added and deleted files', async () => {
+    const changes: string[] = [];
+    const watcher = await watchDirectory({ directory: root, fileExtensions: ['.ts'] }, (batch) => {
+      changes.push(...batch.map(change => `${change.change} ${change.name}`));
+    }, 20);
+
+    try {
+      expect(watcher.initial.length).toBe(2);
+
+      fs.writeFileSync(path.join(root, 'a.ts'), 'export function a(flag: boolean): void {}\n');
+      fs.writeFileSync(path.join(root, 'c.ts'), 'export function c(): void {}\n');
+      fs.rmSync(path.join(root, 'b.ts'));
+
+      // Events may arrive in more than one batch
+      const deadline = Date.now() + 5000;
+      while (changes.length < 3 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+
+      expect(changes.sort()).toEqual(['added c', 'changed a', 'removed b']);
+    } finally {
+      watcher.close();
+    }
+  });
+});
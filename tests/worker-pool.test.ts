@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { parseDirectory, parseDirectoryStream } from '../src/parser';
+import { streamFilesInWorkers } from '../src/worker-pool';
+import { loadLanguageModule, resetLanguages } from '../src/languages';
+import type { FileDeclaration } from '../src/types';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+describe('parallel parsing', () => {
+  test('produces the same declarations in the same file order as sequential parsing', async () => {
+    const sequential = await parseDirectory({ directory: fixturesDir, fileExtensions: ['.js', '.ts'] });
+    const parallel = await parseDirectory({ directory: fixturesDir, fileExtensions: ['.js', '.ts'], concurrency: 3 });
+
+    expect(parallel.map(file => file.fileName)).toEqual(sequential.map(file => file.fileName));
+    expect(parallel).toEqual(sequential);
+  });
+
+  test('assigns unique ids across workers', async () => {
+    const parallel = await parseDirectory({ directory: fixturesDir, fileExtensions: ['.js', '.ts'], concurrency: 2 });
+    const ids = parallel.flatMap(file => [
+      ...file.functions.map(func => func.id),
+      ...file.classes.flatMap(cls => [cls.id, ...cls.methods.map(method => method.id)]),
+      ...file.interfaces.map(decl => decl.id),
+      ...file.typeAliases.map(decl => decl.id),
+      ...file.enums.map(decl => decl.id)
+    ]);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  test('streams the same declarations in the same order, with and without workers', async () => {
+    const expected = await parseDirectory({ directory: fixturesDir, fileExtensions: ['.js', '.ts'] });
+
+    for (const concurrency of [1, 3]) {
+      const streamed: FileDeclaration[] = [];
+      for await (const fileDecl of parseDirectoryStream({ directory: fixturesDir, fileExtensions: ['.js', '.ts'], concurrency })) {
+        streamed.push(fileDecl);
+      }
+      expect(streamed).toEqual(expected);
+    }
+  });
+
+  test('stops the workers when the consumer stops early', async () => {
+    const first: string[] = [];
+    for await (const fileDecl of parseDirectoryStream({ directory: fixturesDir, fileExtensions: ['.js', '.ts'], concurrency: 2 })) {
+      first.push(fileDecl.fileName);
+      if (first.length === 2) break;
+    }
+
+    const all = await parseDirectory({ directory: fixturesDir, fileExtensions: ['.js', '.ts'] });
+    expect(first).toEqual(all.slice(0, 2).map(file => file.fileName));
+  });
+
+  test('fails when a worker exits while parsing a file', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'funsig-worker-pool-'));
+    try {
+      // An adapter that ends the worker thread it extracts on
+      fs.writeFileSync(path.join(root, 'exiting.js'), [
+        `module.exports = { name: 'exiting', extensions: ['.fns'], grammar: 'tree-sitter-javascript', extract() { process.exit(0); } };`,
+        ''
+      ].join('\n'));
+      const files = ['a.fns', 'b.fns'].map(name => path.join(root, name));
+      for (const file of files) fs.writeFileSync(file, 'function f() {}\n');
+      loadLanguageModule(path.join(root, 'exiting.js'));
+
+      const consume = async () => {
+        for await (const _ of streamFilesInWorkers(files, 2)) { /* drain */ }
+      };
+      await expect(consume()).rejects.toThrow('Parse worker exited with code 0 while parsing');
+    } finally {
+      resetLanguages();
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});